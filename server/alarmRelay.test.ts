@@ -0,0 +1,133 @@
+// server/alarmRelay.test.ts
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { RelayEvent } from '../src/lib/relay'
+import { AlarmRelay, isLoopback } from './alarmRelay'
+import { generateAlarms, startMockMetasys } from './mockMetasys'
+
+type Mock = Awaited<ReturnType<typeof startMockMetasys>>
+const NOW = Date.UTC(2026, 2, 10)
+const credentials = { username: 'relay', password: 'x' }
+
+describe('AlarmRelay contra dois simuladores', () => {
+  let mocks: Mock[]
+  let relay: AlarmRelay
+  let events: RelayEvent[]
+  let unsubscribe: () => void
+
+  beforeEach(async () => {
+    mocks = [
+      await startMockMetasys({ alarms: generateAlarms(3, 'a', NOW) }),
+      await startMockMetasys({ alarms: generateAlarms(2, 'b', NOW) }),
+    ]
+    relay = new AlarmRelay({
+      servers: mocks.map((m, i) => ({ name: `srv${i + 1}`, label: `Srv ${i + 1}`, apiBase: m.apiBase })),
+      credentials,
+      periodMs: 60_000, // os ciclos do teste são chamados à mão
+    })
+    events = []
+    unsubscribe = relay.subscribe((e) => events.push(e))
+    await relay.poll()
+  })
+  afterEach(async () => {
+    unsubscribe()
+    await Promise.all(mocks.map((m) => m.close()))
+  })
+
+  it('1ª mensagem é o snapshot, depois da 1ª leitura', () => {
+    expect(events).toHaveLength(1)
+    const snap = events[0]
+    if (snap.type !== 'snapshot') throw new Error('esperava snapshot')
+    expect(snap.servers.srv1.alarms.map((a) => a.id)).toEqual(['a-1', 'a-2', 'a-3'])
+    expect(snap.servers.srv2.status).toMatchObject({ ok: true, count: 2 })
+  })
+
+  it('envia só as mudanças do ciclo: add, update e clear', async () => {
+    mocks[0].mock.alarms.splice(0, 1)                                 // a-1 normalizou
+    mocks[0].mock.alarms[0].isAcknowledged = true                     // a-2 reconhecido
+    mocks[1].mock.alarms.push(...generateAlarms(3, 'b', NOW).slice(2)) // b-3 novo
+    events = []
+    await relay.poll()
+    expect(events.filter((e) => e.type !== 'status')).toEqual([
+      { type: 'update', server: 'srv1', alarm: expect.objectContaining({ id: 'a-2', isAcknowledged: true }) },
+      { type: 'clear', server: 'srv1', id: 'a-1' },
+      { type: 'add', server: 'srv2', alarm: expect.objectContaining({ id: 'b-3' }) },
+    ])
+    expect(events.filter((e) => e.type === 'status')).toHaveLength(2)
+  })
+
+  it('servidor com falha só muda o status: nada de "clear" falso', async () => {
+    mocks[1].mock.setFailure({ mode: 'alarms', status: 502 })
+    events = []
+    await relay.poll()
+    expect(events).toEqual([
+      { type: 'status', server: 'srv1', status: expect.objectContaining({ ok: true }) },
+      { type: 'status', server: 'srv2', status: expect.objectContaining({ ok: false, status: 502 }) },
+    ])
+    const snap = relay.snapshot()
+    if (snap.type !== 'snapshot') throw new Error('esperava snapshot')
+    expect(snap.servers.srv2.alarms).toHaveLength(2)
+  })
+
+  it('token expirado: refaz o login uma vez', async () => {
+    mocks[0].mock.expireTokens()
+    await relay.poll()
+    expect(mocks[0].mock.stats.logins).toBe(2)
+  })
+
+  it('um ciclo p/ todos os inscritos; quem chega depois recebe o snapshot na hora', async () => {
+    const late: RelayEvent[] = []
+    const off = relay.subscribe((e) => late.push(e))
+    expect(late.map((e) => e.type)).toEqual(['snapshot'])
+    await relay.poll()
+    expect(mocks[0].mock.stats.alarmRequests).toBe(2)
+    off()
+  })
+})
+
+describe('GET /board-api/stream (SSE)', () => {
+  let mock: Mock
+  afterEach(() => mock.close())
+
+  async function serve(relay: AlarmRelay) {
+    const server = createServer((req, res) => relay.handle(req, res))
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, server }
+  }
+
+  it('sem credenciais responde 503 (o navegador volta ao polling)', async () => {
+    mock = await startMockMetasys()
+    const { url, server } = await serve(new AlarmRelay({ servers: [{ name: 's', label: 'S', apiBase: mock.apiBase }] }))
+    const res = await fetch(url)
+    expect(res.status).toBe(503)
+    server.close()
+  })
+
+  it('manda o snapshot como "data:" em JSON', async () => {
+    mock = await startMockMetasys({ alarms: generateAlarms(2, 'x', NOW) })
+    const relay = new AlarmRelay({ servers: [{ name: 's', label: 'S', apiBase: mock.apiBase }], credentials })
+    const { url, server } = await serve(relay)
+    const controller = new AbortController()
+    const res = await fetch(url, { signal: controller.signal })
+    expect(res.headers.get('content-type')).toMatch(/^text\/event-stream/)
+
+    const reader = res.body!.getReader()
+    let text = ''
+    while (!text.includes('\n\ndata: ') || !text.endsWith('\n\n')) text += new TextDecoder().decode((await reader.read()).value)
+    const event = JSON.parse(text.split('data: ')[1]) as RelayEvent
+    expect(event).toMatchObject({ type: 'snapshot', servers: { s: { status: { ok: true, count: 2 } } } })
+
+    controller.abort()
+    relay.stop()
+    server.closeAllConnections()
+    server.close()
+  })
+})
+
+describe('isLoopback', () => {
+  it('só a própria máquina recebe o fluxo', () => {
+    for (const a of ['127.0.0.1', '::1', '::ffff:127.0.0.1']) expect(isLoopback(a)).toBe(true)
+    for (const a of ['10.0.0.5', '::ffff:192.168.0.2', 'fe80::1', undefined]) expect(isLoopback(a)).toBe(false)
+  })
+})
@@ -0,0 +1,197 @@
+// server/alarmRelay.ts
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { ApiError, getAlarms, login, type AlarmDTO } from '../src/lib/api'
+import type { RelayEvent, RelayServerState, RelayStatus } from '../src/lib/relay'
+
+/* =========================================
+   Relay de alarmes ao vivo
+   Um só polling dos ADX p/ todos os navegadores: a cada ciclo compara com
+   a leitura anterior e envia add/update/clear + status por SSE.
+   Só consulta enquanto houver alguém inscrito. Servidor que falha mantém
+   os alarmes da última leitura ok (sem "clear" falso).
+   ========================================= */
+export type RelayServer = {
+  name: string
+  label: string
+  apiBase: string      // URL absoluta ("http://127.0.0.1:5173/api100") ou relativa a "origin"
+  pageSize?: number
+  maxAlarms?: number
+}
+
+export type AlarmRelayOptions = {
+  servers: RelayServer[]
+  credentials?: { username: string; password: string }  // conta de serviço; sem ela o fluxo responde 503
+  origin?: string        // base p/ apiBase relativo (o próprio Vite, que faz o proxy)
+  periodMs?: number
+  heartbeatMs?: number
+}
+
+export const RELAY_PERIOD_MS = 15_000
+const HEARTBEAT_MS = 25_000  // comentário SSE p/ proxies não fecharem a conexão ociosa
+
+type ServerSlot = { alarms: Map<string, AlarmDTO>; status?: RelayStatus; token?: string }
+type Listener = (e: RelayEvent) => void
+
+const message = (e: unknown) => (e instanceof Error ? e.message : String(e))
+
+// O fluxo leva os alarmes lidos com a conta de serviço, sem o login do operador: só p/ a própria máquina
+export function isLoopback(address: string | undefined): boolean {
+  if (!address) return false
+  const ip = address.startsWith('::ffff:') ? address.slice(7) : address
+  return ip === '::1' || /^127\./.test(ip)
+}
+
+export class AlarmRelay {
+  origin: string
+  private readonly options: AlarmRelayOptions
+  private readonly slots = new Map<string, ServerSlot>()
+  private readonly listeners = new Map<Listener, { primed: boolean }>()
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private inFlight: Promise<void> | null = null
+  private polled = false
+
+  constructor(options: AlarmRelayOptions) {
+    this.options = options
+    this.origin = options.origin ?? ''
+    for (const srv of options.servers) this.slots.set(srv.name, { alarms: new Map() })
+  }
+
+  get enabled(): boolean {
+    return !!this.options.credentials
+  }
+
+  get periodMs(): number {
+    return this.options.periodMs ?? RELAY_PERIOD_MS
+  }
+
+  // ----- Inscrição: a 1ª mensagem de cada inscrito é sempre o snapshot -----
+  subscribe(listener: Listener): () => void {
+    this.listeners.set(listener, { primed: this.polled })
+    if (this.polled) listener(this.snapshot())
+    if (this.listeners.size === 1) this.schedule(0)
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) this.stop()
+    }
+  }
+
+  snapshot(): RelayEvent {
+    const servers: Record<string, RelayServerState> = {}
+    for (const [name, slot] of this.slots) servers[name] = { alarms: [...slot.alarms.values()], status: slot.status }
+    return { type: 'snapshot', servers }
+  }
+
+  stop() {
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  private schedule(delay = this.periodMs) {
+    clearTimeout(this.timer)
+    if (this.listeners.size === 0) return
+    this.timer = setTimeout(() => void this.poll(), delay)
+  }
+
+  private emit(e: RelayEvent) {
+    for (const [listener, meta] of this.listeners) if (meta.primed) listener(e)
+  }
+
+  // Um ciclo em todos os servidores; chamadas simultâneas viram uma só
+  poll(): Promise<void> {
+    this.inFlight ??= this.pollAll().finally(() => {
+      this.inFlight = null
+      this.schedule()
+    })
+    return this.inFlight
+  }
+
+  private async pollAll() {
+    await Promise.all(this.options.servers.map((srv) => this.pollServer(srv)))
+    this.polled = true
+    // Quem entrou antes da 1ª leitura (ou durante o ciclo) recebe o estado completo
+    const snap = this.snapshot()
+    for (const [listener, meta] of this.listeners) {
+      if (meta.primed) continue
+      meta.primed = true
+      listener(snap)
+    }
+  }
+
+  private async pollServer(srv: RelayServer) {
+    const slot = this.slots.get(srv.name)
+    if (!slot) return
+    const started = Date.now()
+    try {
+      const res = await this.withToken(srv, slot, (apiBase, token) => getAlarms(apiBase, token, {
+        pageSize: srv.pageSize,
+        maxItems: srv.maxAlarms,
+      }))
+      const next = new Map(res.items.map((a) => [a.id, a]))
+      for (const [id, alarm] of next) {
+        const prev = slot.alarms.get(id)
+        if (!prev) this.emit({ type: 'add', server: srv.name, alarm })
+        else if (JSON.stringify(prev) !== JSON.stringify(alarm)) this.emit({ type: 'update', server: srv.name, alarm })
+      }
+      for (const id of slot.alarms.keys()) {
+        if (!next.has(id)) this.emit({ type: 'clear', server: srv.name, id })
+      }
+      slot.alarms = next
+      slot.status = {
+        ok: true,
+        at: Date.now(),
+        latencyMs: Date.now() - started,
+        count: res.items.length,
+        total: res.total,
+        truncated: res.truncated,
+      }
+    } catch (e) {
+      slot.status = { ok: false, at: Date.now(), error: message(e), status: e instanceof ApiError ? e.status : undefined }
+    }
+    this.emit({ type: 'status', server: srv.name, status: slot.status })
+  }
+
+  // Token da conta de serviço por servidor; 401 renova uma vez
+  private async withToken<T>(srv: RelayServer, slot: ServerSlot, fn: (apiBase: string, token: string) => Promise<T>): Promise<T> {
+    const credentials = this.options.credentials
+    if (!credentials) throw new Error('Relay sem credenciais')
+    const apiBase = /^https?:\/\//.test(srv.apiBase) ? srv.apiBase : `${this.origin}${srv.apiBase}`
+    const fresh = async () => {
+      slot.token = (await login(apiBase, credentials.username, credentials.password)).accessToken
+      return slot.token
+    }
+    try {
+      return await fn(apiBase, slot.token ?? await fresh())
+    } catch (e) {
+      if (!(e instanceof ApiError) || e.status !== 401) throw e
+      return fn(apiBase, await fresh())
+    }
+  }
+
+  // ----- GET /board-api/stream (SSE): uma mensagem "data:" por evento -----
+  handle(req: IncomingMessage, res: ServerResponse) {
+    if (!isLoopback(req.socket.remoteAddress)) {
+      res.statusCode = 403
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      res.end(JSON.stringify({ error: 'Fluxo ao vivo só para clientes locais' }))
+      return
+    }
+    if (!this.enabled) {
+      res.statusCode = 503
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      res.end(JSON.stringify({ error: 'Relay sem credenciais (RELAY_USERNAME / RELAY_PASSWORD)' }))
+      return
+    }
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+    res.write(': conectado\n\n')
+    const unsubscribe = this.subscribe((e) => res.write(`data: ${JSON.stringify(e)}\n\n`))
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), this.options.heartbeatMs ?? HEARTBEAT_MS)
+    req.on('close', () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+  }
+}
@@ -0,0 +1,99 @@
+// server/boardApi.ts
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { resolve } from 'node:path'
+import type { Connect, Plugin } from 'vite'
+import type { AlarmRelay } from './alarmRelay'
+import { CommentStore } from './commentStore'
+
+/* =========================================
+   Backend do AlarmBoard servido junto com o Vite (dev e preview)
+   em /board-api — fora dos prefixos /apiXX do proxy Metasys.
+     GET  /board-api/comments            -> todos os históricos
+     GET  /board-api/comments/:alarmId   -> histórico de um alarme
+     POST /board-api/comments/:alarmId   -> { author, text } acrescenta
+     POST /board-api/comments/import     -> [{ alarmId, author, text, createdAt? }]
+     GET  /board-api/stream              -> alarmes ao vivo (SSE), se houver relay
+   Uso local e confiável: sem login nas rotas; o autor do comentário é o que
+   o navegador declara (não é conferido). Não expor na rede.
+   ========================================= */
+export const BOARD_API = '/board-api'
+
+export type BoardApiOptions = {
+  dataDir?: string
+  relay?: AlarmRelay
+  commentRetentionDays?: number  // limpa os históricos antigos ao subir; sem ele, guarda tudo
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify(body))
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null') as T
+}
+
+export function createBoardApiMiddleware(options: BoardApiOptions = {}): Connect.NextHandleFunction {
+  const dataDir = resolve(options.dataDir ?? 'data')
+  const comments = new CommentStore(resolve(dataDir, 'comments.json'))
+  if (options.commentRetentionDays) {
+    comments.prune(options.commentRetentionDays).catch(() => { /* falha de gravação volta na próxima rota que grava */ })
+  }
+
+  return (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    if (!url.pathname.startsWith(`${BOARD_API}/`)) return next()
+    const parts = url.pathname.slice(BOARD_API.length + 1).split('/').map(decodeURIComponent)
+
+    if (parts[0] === 'stream' && req.method === 'GET' && options.relay) return options.relay.handle(req, res)
+
+    const handle = async () => {
+      if (parts[0] === 'comments') {
+        const [, alarmId] = parts
+        if (req.method === 'GET' && !alarmId) return sendJson(res, 200, await comments.all())
+        if (req.method === 'POST' && alarmId === 'import') {
+          const items = await readJson<Parameters<CommentStore['importMany']>[0]>(req)
+          return sendJson(res, 200, { imported: await comments.importMany(Array.isArray(items) ? items : []) })
+        }
+        if (req.method === 'GET' && alarmId) return sendJson(res, 200, await comments.thread(alarmId))
+        if (req.method === 'POST' && alarmId) {
+          const body = await readJson<{ author?: string; text?: string }>(req)
+          if (!body?.text?.trim()) return sendJson(res, 400, { error: 'Comentário vazio' })
+          return sendJson(res, 201, await comments.append(alarmId, body.author ?? '', body.text))
+        }
+      }
+      sendJson(res, 404, { error: 'Rota não encontrada' })
+    }
+
+    handle().catch((e: unknown) => {
+      sendJson(res, 500, { error: e instanceof Error ? e.message : String(e) })
+    })
+  }
+}
+
+// O relay consulta os ADX pelo próprio servidor (proxy ou simulador): a origem só é conhecida ao subir
+function relayOrigin(relay: AlarmRelay, httpServer: Server | null) {
+  httpServer?.once('listening', () => {
+    const { address, family, port } = httpServer.address() as AddressInfo
+    const host = address === '0.0.0.0' || address === '::' ? 'localhost' : family === 'IPv6' ? `[${address}]` : address
+    relay.origin = `http://${host}:${port}`
+  })
+}
+
+export function boardApi(options: BoardApiOptions = {}): Plugin {
+  return {
+    name: 'alarmboard-api',
+    configureServer(server) {
+      if (options.relay) relayOrigin(options.relay, server.httpServer as Server | null)
+      server.middlewares.use(createBoardApiMiddleware(options))
+    },
+    configurePreviewServer(server) {
+      if (options.relay) relayOrigin(options.relay, server.httpServer as Server | null)
+      server.middlewares.use(createBoardApiMiddleware(options))
+    },
+  }
+}
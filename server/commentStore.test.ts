@@ -0,0 +1,36 @@
+// server/commentStore.test.ts
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { CommentStore } from './commentStore'
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = Date.UTC(2026, 2, 10)
+
+describe('CommentStore', () => {
+  let dir: string
+  let file: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'comments-'))
+    file = join(dir, 'comments.json')
+  })
+  afterEach(() => rm(dir, { recursive: true, force: true }))
+
+  it('gravar um comentário não apaga históricos antigos', async () => {
+    const store = new CommentStore(file)
+    await store.append('srv1-a-1', 'op', 'turno de 2025', new Date(NOW - 400 * DAY).toISOString())
+    await store.append('srv1-a-2', 'op', 'hoje')
+    expect(Object.keys(await new CommentStore(file).all()).sort()).toEqual(['srv1-a-1', 'srv1-a-2'])
+  })
+
+  it('prune remove só os históricos sem comentário dentro do prazo', async () => {
+    const store = new CommentStore(file)
+    await store.append('srv1-a-1', 'op', 'antigo', new Date(NOW - 200 * DAY).toISOString())
+    await store.append('srv1-a-2', 'op', 'antigo', new Date(NOW - 200 * DAY).toISOString())
+    await store.append('srv1-a-2', 'op', 'recente', new Date(NOW - 10 * DAY).toISOString())
+    expect(await store.prune(180, NOW)).toBe(1)
+    expect(Object.keys(await new CommentStore(file).all())).toEqual(['srv1-a-2'])
+  })
+})
@@ -0,0 +1,105 @@
+// server/commentStore.ts
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+
+/* =========================================
+   Comentários compartilhados — arquivo JSON
+   { "<id composto>": [ { id, author, text, createdAt }, ... ] }
+   Cada alarme guarda um histórico (só acrescenta).
+   ========================================= */
+export type CommentEntry = {
+  id: string
+  author: string
+  text: string
+  createdAt: string // ISO
+}
+
+export type CommentThreads = Record<string, CommentEntry[]>
+
+export class CommentStore {
+  private file: string
+  private threads: CommentThreads | null = null
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(file: string) {
+    this.file = file
+  }
+
+  private async load(): Promise<CommentThreads> {
+    if (this.threads) return this.threads
+    try {
+      this.threads = JSON.parse(await readFile(this.file, 'utf8')) as CommentThreads
+    } catch {
+      this.threads = {}
+    }
+    return this.threads
+  }
+
+  // Grava num temporário e renomeia, em fila, p/ nunca deixar o arquivo pela metade
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.threads ?? {}, null, 2)
+    this.writing = this.writing.then(async () => {
+      await mkdir(dirname(this.file), { recursive: true })
+      await writeFile(`${this.file}.tmp`, snapshot, 'utf8')
+      await rename(`${this.file}.tmp`, this.file)
+    })
+    return this.writing
+  }
+
+  async all(): Promise<CommentThreads> {
+    return this.load()
+  }
+
+  async thread(alarmId: string): Promise<CommentEntry[]> {
+    return (await this.load())[alarmId] ?? []
+  }
+
+  async append(alarmId: string, author: string, text: string, createdAt?: string): Promise<CommentEntry> {
+    const threads = await this.load()
+    const entry: CommentEntry = {
+      id: Math.random().toString(36).slice(2, 10),
+      author: author.trim() || 'anônimo',
+      text,
+      createdAt: createdAt ?? new Date().toISOString(),
+    }
+    ;(threads[alarmId] ??= []).push(entry)
+    await this.persist()
+    return entry
+  }
+
+  // Limpeza explícita (não roda nas gravações): descarta históricos cujo último
+  // comentário é mais antigo que retentionDays. Devolve quantos saíram
+  async prune(retentionDays: number, now = Date.now()): Promise<number> {
+    const threads = await this.load()
+    const limit = now - retentionDays * 24 * 60 * 60 * 1000
+    let removed = 0
+    for (const [alarmId, entries] of Object.entries(threads)) {
+      const last = entries[entries.length - 1]
+      if (last && new Date(last.createdAt).getTime() >= limit) continue
+      delete threads[alarmId]
+      removed++
+    }
+    if (removed > 0) await this.persist()
+    return removed
+  }
+
+  // Migração do localStorage: ignora o que já existe com o mesmo texto
+  async importMany(items: { alarmId: string; author: string; text: string; createdAt?: string }[]): Promise<number> {
+    const threads = await this.load()
+    let imported = 0
+    for (const it of items) {
+      if (!it.alarmId || !it.text?.trim()) continue
+      const list = (threads[it.alarmId] ??= [])
+      if (list.some((c) => c.text === it.text)) continue
+      list.push({
+        id: Math.random().toString(36).slice(2, 10),
+        author: it.author?.trim() || 'anônimo',
+        text: it.text,
+        createdAt: it.createdAt ?? new Date().toISOString(),
+      })
+      imported++
+    }
+    if (imported > 0) await this.persist()
+    return imported
+  }
+}
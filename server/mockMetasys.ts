@@ -0,0 +1,257 @@
+// server/mockMetasys.ts
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { Connect, Plugin } from 'vite'
+import fixtures from './fixtures/alarms.json'
+
+/* =========================================
+   Metasys v3 simulado — p/ desenvolver e testar sem os ADX
+     POST /api/v3/login                          -> { accessToken, expires }
+     GET  /api/v3/alarms?page&pageSize&isAcknowledged&isDiscarded
+     PUT  /api/v3/alarms/:id/acknowledge|discard
+     GET  /api/v3/objectIdentifiers?fqr          -> "<GUID do objeto>"
+     GET  /api/v3/objects/:id                    -> { item: { presentValue, units, ... } }
+     POST /api/__mock/failure                    -> { mode, ... } troca o modo de falha
+   No Vite (npm run dev:mock) cada servidor do registro ganha o seu,
+   no próprio prefixo (/api100, /api69…), no lugar do proxy.
+   ========================================= */
+export type MockAlarm = {
+  id: string
+  itemReference: string
+  name: string
+  creationTime: string
+  isAcknowledged: boolean
+  isDiscarded: boolean
+  priority: number | string   // as fixtures também trazem prioridade em texto
+  triggerValue?: { value?: string; units?: string }
+}
+
+// Objeto Metasys (ponto) — atributos soltos, como no /objects/:id
+export type MockObject = { id: string; itemReference: string } & Record<string, unknown>
+
+export type MockFailure =
+  | { mode: 'none' }
+  | { mode: 'login'; status?: number }                 // login recusado (401)
+  | { mode: 'alarms'; status?: number }                // /alarms com erro (500)
+  | { mode: 'flaky'; every: number; status?: number }  // 1 a cada N requisições de /alarms falha
+  | { mode: 'slow'; delayMs: number }                  // atraso em todas as respostas
+  | { mode: 'drop' }                                   // derruba a conexão (erro de rede)
+
+export type MockMetasysOptions = {
+  alarms?: MockAlarm[]       // padrão: server/fixtures/alarms.json
+  objects?: MockObject[]     // padrão: um objeto por itemReference dos alarmes (mockObjects)
+  username?: string          // sem usuário/senha: aceita qualquer login não vazio
+  password?: string
+  tokenTtlSec?: number
+  failure?: MockFailure
+}
+
+export type MockMetasys = {
+  handle: (req: IncomingMessage, res: ServerResponse) => void   // caminhos a partir de /api
+  alarms: MockAlarm[]
+  objects: MockObject[]
+  setFailure: (failure: MockFailure) => void
+  expireTokens: () => void   // tokens emitidos passam a dar 401 (testa o re-login)
+  stats: { logins: number; alarmRequests: number }
+}
+
+export const MOCK_ALARMS = fixtures as MockAlarm[]
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify(body))
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null') as T
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+function flag(value: string | null): boolean | undefined {
+  return value === null ? undefined : value === 'true'
+}
+
+// Um ponto por itemReference, com o valor do alarme mais recente como presentValue.
+// Pontos numéricos ganham limites de alarme em volta do valor.
+export function mockObjects(alarms: MockAlarm[]): MockObject[] {
+  const latest = new Map<string, MockAlarm>()
+  for (const a of alarms) {
+    const prev = latest.get(a.itemReference)
+    if (!prev || a.creationTime > prev.creationTime) latest.set(a.itemReference, a)
+  }
+  return [...latest.values()].map((a, i) => {
+    const raw = a.triggerValue?.value ?? ''
+    const n = raw.trim() === '' ? NaN : Number(raw)
+    const numeric = Number.isFinite(n)
+    const active = alarms.some((x) => x.itemReference === a.itemReference && !x.isAcknowledged && !x.isDiscarded)
+    return {
+      id: `00000000-0000-4000-8000-${String(i + 1).padStart(12, '0')}`,
+      itemReference: a.itemReference,
+      name: a.name || a.itemReference.split('.').pop() || a.itemReference,
+      description: a.name,
+      objectType: numeric ? 'objectTypeEnumSet.avClass' : 'objectTypeEnumSet.bvClass',
+      presentValue: numeric ? n : raw.replaceAll('"', ''),
+      ...(a.triggerValue?.units ? { units: a.triggerValue.units } : {}),
+      status: active ? 'statusEnumSet.alarm' : 'statusEnumSet.normal',
+      reliability: 'reliabilityEnumSet.noFaultDetected',
+      outOfService: false,
+      ...(numeric ? { highAlarmLimit: Math.round(n * 0.9 * 10) / 10, lowAlarmLimit: Math.round(n * 0.2 * 10) / 10 } : {}),
+    }
+  })
+}
+
+export function createMockMetasys(options: MockMetasysOptions = {}): MockMetasys {
+  const alarms = (options.alarms ?? MOCK_ALARMS).map((a) => ({ ...a }))
+  const objects = options.objects ?? mockObjects(alarms)
+  const ttl = options.tokenTtlSec ?? 1200
+  const tokens = new Set<string>()
+  const stats = { logins: 0, alarmRequests: 0 }
+  let failure: MockFailure = options.failure ?? { mode: 'none' }
+  let tokenSeq = 0
+
+  const authorized = (req: IncomingMessage) => {
+    const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1]
+    return !!token && tokens.has(token)
+  }
+
+  async function route(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const path = url.pathname.replace(/\/+$/, '')
+
+    if (req.method === 'POST' && path === '/api/__mock/failure') {
+      const body = await readJson<MockFailure | { mode: 'expire-token' }>(req)
+      if (body?.mode === 'expire-token') tokens.clear()
+      else failure = body ?? { mode: 'none' }
+      return sendJson(res, 200, { failure })
+    }
+
+    if (failure.mode === 'slow') await sleep(failure.delayMs)
+    if (failure.mode === 'drop') {
+      req.socket.destroy()
+      return
+    }
+
+    if (req.method === 'POST' && path === '/api/v3/login') {
+      const body = await readJson<{ username?: string; password?: string }>(req)
+      if (failure.mode === 'login') return sendJson(res, failure.status ?? 401, { message: 'Login simulado recusado' })
+      const ok = options.username === undefined
+        ? !!body?.username && !!body.password
+        : body?.username === options.username && body.password === options.password
+      if (!ok) return sendJson(res, 401, { message: 'Usuário ou senha inválidos' })
+      stats.logins++
+      const accessToken = `mock-${++tokenSeq}`
+      tokens.add(accessToken)
+      return sendJson(res, 200, { accessToken, expires: new Date(Date.now() + ttl * 1000).toISOString() })
+    }
+
+    if (!authorized(req)) return sendJson(res, 401, { message: 'Token inválido ou expirado' })
+
+    if (req.method === 'GET' && path === '/api/v3/alarms') {
+      stats.alarmRequests++
+      if (failure.mode === 'alarms') return sendJson(res, failure.status ?? 500, { message: 'Falha simulada' })
+      if (failure.mode === 'flaky' && stats.alarmRequests % failure.every === 0) {
+        return sendJson(res, failure.status ?? 503, { message: 'Falha intermitente simulada' })
+      }
+      const ack = flag(url.searchParams.get('isAcknowledged'))
+      const disc = flag(url.searchParams.get('isDiscarded'))
+      const matching = alarms.filter((a) =>
+        (ack === undefined || a.isAcknowledged === ack) && (disc === undefined || a.isDiscarded === disc))
+      const page = Math.max(1, Number(url.searchParams.get('page')) || 1)
+      const pageSize = Math.max(1, Number(url.searchParams.get('pageSize')) || 100)
+      const items = matching.slice((page - 1) * pageSize, page * pageSize)
+      return sendJson(res, 200, { total: matching.length, items })
+    }
+
+    const action = /^\/api\/v3\/alarms\/([^/]+)\/(acknowledge|discard)$/.exec(path)
+    if (req.method === 'PUT' && action) {
+      const alarm = alarms.find((a) => a.id === decodeURIComponent(action[1]))
+      if (!alarm) return sendJson(res, 404, { message: 'Alarme não encontrado' })
+      await readJson<unknown>(req) // { annotationText } — aceita e ignora
+      if (action[2] === 'acknowledge') alarm.isAcknowledged = true
+      else alarm.isDiscarded = true
+      res.statusCode = 204
+      return res.end()
+    }
+
+    if (req.method === 'GET' && path === '/api/v3/objectIdentifiers') {
+      const obj = objects.find((o) => o.itemReference === url.searchParams.get('fqr'))
+      if (!obj) return sendJson(res, 404, { message: 'Objeto não encontrado' })
+      return sendJson(res, 200, obj.id)
+    }
+
+    const object = /^\/api\/v3\/objects\/([^/]+)$/.exec(path)
+    if (req.method === 'GET' && object) {
+      const obj = objects.find((o) => o.id === decodeURIComponent(object[1]))
+      if (!obj) return sendJson(res, 404, { message: 'Objeto não encontrado' })
+      return sendJson(res, 200, { item: obj })
+    }
+
+    sendJson(res, 404, { message: 'Rota não encontrada no mock' })
+  }
+
+  return {
+    handle: (req, res) => {
+      route(req, res).catch((e: unknown) => {
+        sendJson(res, 500, { message: e instanceof Error ? e.message : String(e) })
+      })
+    },
+    alarms,
+    objects,
+    setFailure: (next) => { failure = next },
+    expireTokens: () => tokens.clear(),
+    stats,
+  }
+}
+
+// Sobe o simulador numa porta livre de 127.0.0.1 (testes de integração)
+export async function startMockMetasys(options?: MockMetasysOptions) {
+  const mock = createMockMetasys(options)
+  const server = createServer(mock.handle)
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    apiBase: `http://127.0.0.1:${port}/api`,
+    mock,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections() // o fetch mantém conexões keep-alive abertas
+      server.close((e) => (e ? reject(e) : resolve()))
+    }),
+  }
+}
+
+// Massa de alarmes p/ testar volume (ex.: 20 mil linhas); "now" fixo deixa o resultado determinístico
+export function generateAlarms(count: number, prefix = 'gen', now = Date.now()): MockAlarm[] {
+  const units = ['unitEnumSet.degF', 'unitEnumSet.degC', 'unitEnumSet.percent', 'unitEnumSet.noUnits']
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}-${i + 1}`,
+    itemReference: `ADX:NAE-${(i % 4) + 1}/FC-${(i % 3) + 1}.AHU-${String((i % 25) + 1).padStart(2, '0')}.PT-${(i % 40) + 1}`,
+    name: `AHU-${String((i % 25) + 1).padStart(2, '0')} Ponto ${(i % 40) + 1}`,
+    creationTime: new Date(now - i * 47_000).toISOString(),
+    isAcknowledged: i % 3 === 0,
+    isDiscarded: i % 11 === 0,
+    priority: (i * 37) % 256,
+    triggerValue: { value: String(((i * 13) % 900) / 10), units: units[i % units.length] },
+  }))
+}
+
+// Plugin do Vite p/ o modo "mock": um simulador por servidor, montado no apiBase dele
+export function mockMetasys(servers: { name: string; apiBase: string }[], extraAlarms = 200): Plugin {
+  const mount = (middlewares: Connect.Server) => {
+    for (const srv of servers) {
+      const mock = createMockMetasys({ alarms: [...MOCK_ALARMS, ...generateAlarms(extraAlarms, srv.name)] })
+      middlewares.use(srv.apiBase, (req, res) => {
+        req.url = `/api${req.url ?? ''}`
+        mock.handle(req, res)
+      })
+    }
+  }
+  return {
+    name: 'alarmboard-mock-metasys',
+    configureServer: (server) => mount(server.middlewares),
+    configurePreviewServer: (server) => mount(server.middlewares),
+  }
+}
@@ -0,0 +1,39 @@
+// src/App.tsx
+import { useEffect, useState } from 'react';
+import Alarms from './alarms/Alarms';
+import Login from './auth/Login';
+import { useLocale } from './i18n/useLocale';
+import Kiosk from './kiosk/Kiosk';
+import { isLoggedIn, logout } from './lib/auth';
+
+// /kiosk -> painel de parede; o login vale p/ os dois (sessão fica só nesta aba)
+const isKioskPath = () => /\/kiosk\/?$/.test(window.location.pathname);
+
+export default function App() {
+  const [loggedIn, setLoggedIn] = useState(() => isLoggedIn());
+  const [kiosk, setKiosk] = useState(isKioskPath);
+  const locale = useLocale(); // trocar o idioma re-renderiza a árvore toda
+
+  useEffect(() => { document.documentElement.lang = locale; }, [locale]);
+
+  useEffect(() => {
+    const onPop = () => setKiosk(isKioskPath());
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  }, []);
+
+  // Troca de tela sem recarregar a página (recarregar perderia o login)
+  function navigate(path: string) {
+    window.history.pushState(null, '', path);
+    setKiosk(isKioskPath());
+  }
+
+  function handleLogout() {
+    logout();
+    setLoggedIn(false);
+  }
+
+  if (!loggedIn) return <Login onLoggedIn={() => setLoggedIn(true)} />;
+  if (kiosk) return <Kiosk onExit={() => navigate('/')} />;
+  return <Alarms onLogout={handleLogout} onKiosk={() => navigate('/kiosk')} />;
+}
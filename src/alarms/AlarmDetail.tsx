@@ -0,0 +1,133 @@
+// src/alarms/AlarmDetail.tsx
+import { useEffect, useState, type CSSProperties } from 'react';
+import { formatDateTime, t, yesNo } from '../i18n/i18n';
+import { getObject, getObjectId, type MetasysObject } from '../lib/api';
+import { withAuth } from '../lib/auth';
+import { enumLabel, unitLabel } from '../lib/metasysEnums';
+import type { CommentEntry } from '../lib/comments';
+import { parseRowId } from '../lib/servers';
+import type { UnitSystem } from '../lib/units';
+import CommentThread from './CommentThread';
+import { describePoint } from './pointDetail';
+import { severityLabel, severityOf, type SeverityBand } from './severity';
+import type { Row } from './types';
+
+type Props = {
+  row: Row;
+  earlier: Row[];          // mesmas itemReference, já nas linhas carregadas (pointDetail.earlierAlarms)
+  thread: CommentEntry[];
+  bands: SeverityBand[];
+  unitSystem: UnitSystem;
+  onAddNote: (text: string) => Promise<void>;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+};
+
+// Gaveta lateral: ponto lido na hora no servidor de origem + ocorrências anteriores + notas
+export default function AlarmDetail({ row, earlier, thread, bands, unitSystem, onAddNote, onSelect, onClose }: Props) {
+  const origin = parseRowId(row.id)?.server;
+  const [item, setItem] = useState<MetasysObject | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!origin) return;
+    let cancelled = false;
+    setLoading(true);
+    setErr('');
+    withAuth(origin, async (token) => getObject(origin.apiBase, token, await getObjectId(origin.apiBase, token, row.site)))
+      .then((obj) => { if (!cancelled) setItem(obj); })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        setItem(null);
+        setErr(e instanceof Error ? e.message : String(e));
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [origin, row.site, reloadKey]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const sev = severityOf(row.priority, bands);
+  // descrito a cada render: segue o idioma e o sistema de unidades sem reler o servidor
+  const point = item && describePoint(item, unitSystem);
+
+  return (
+    <aside className="detail-drawer" aria-label={t('detail.label')} style={{ '--sev': sev.color } as CSSProperties}>
+      <header className="detail-head">
+        <div className="detail-title">
+          <h2>{row.point}</h2>
+          <span className="detail-ref" title={row.site}>{row.site}</span>
+        </div>
+        <button className="btn-row" onClick={onClose} title={t('detail.close')}>✕</button>
+      </header>
+
+      <section className="detail-section">
+        <dl className="detail-grid">
+          <dt>{t('detail.trigger')}</dt><dd>{enumLabel(row.value)} {unitLabel(row.unit)}</dd>
+          <dt>{t('col.dateTime')}</dt><dd>{formatDateTime(row.dateTimeISO)}</dd>
+          <dt>{t('col.priority')}</dt><dd>{row.priority} <span className="sev-badge">{severityLabel(sev.id)}</span></dd>
+          <dt>{t('col.reconhecido')}</dt><dd>{yesNo(row.reconhecido)}</dd>
+          <dt>{t('col.descartado')}</dt><dd>{yesNo(row.descartado)}</dd>
+          <dt>{t('col.server')}</dt><dd>{origin?.label ?? '—'}</dd>
+        </dl>
+      </section>
+
+      <section className="detail-section">
+        <h3>
+          {t('detail.pointNow')}
+          <button className="btn-row" disabled={loading || !origin} onClick={() => setReloadKey((k) => k + 1)}>
+            {loading ? t('detail.reading') : t('detail.reload')}
+          </button>
+        </h3>
+        {err && <p className="detail-error">{err}</p>}
+        {!origin && <p className="detail-error">{t('detail.unknownServer')}</p>}
+        {point && (
+          <>
+            <p className="detail-present">
+              <span className="mono">{point.presentValue || '—'}</span> {point.units}
+            </p>
+            <dl className="detail-grid">
+              {point.attributes.map((a) => (
+                <div key={a.key} className="detail-attr">
+                  <dt>{a.label}</dt><dd>{a.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </>
+        )}
+      </section>
+
+      <section className="detail-section">
+        <h3>{t('detail.earlier', { count: earlier.length })}</h3>
+        {earlier.length === 0 ? (
+          <p className="comment-empty">{t('detail.noEarlier')}</p>
+        ) : (
+          <ol className="detail-earlier">
+            {earlier.map((r) => (
+              <li key={r.id}>
+                <button className="btn-row" onClick={() => onSelect(r.id)} title={t('detail.open')}>
+                  {formatDateTime(r.dateTimeISO)}
+                </button>
+                <span>{enumLabel(r.value)} {unitLabel(r.unit)}</span>
+                <span className="mono">P{r.priority}</span>
+                {r.reconhecido && <span className="detail-tag">{t('col.reconhecido')}</span>}
+                {r.descartado && <span className="detail-tag">{t('col.descartado')}</span>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      <section className="detail-section">
+        <h3>{t('detail.notes')}</h3>
+        <CommentThread thread={thread} onAdd={onAddNote} />
+      </section>
+    </aside>
+  );
+}
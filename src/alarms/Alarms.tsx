@@ -1,148 +1,173 @@
 // src/alarms/Alarms.tsx
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from 'react';
 import './Alarms.css';
+import { formatDateTime, formatTime, t, yesNo } from '../i18n/i18n';
+import LanguageSelect from '../i18n/LanguageSelect';
+import { useLocale } from '../i18n/useLocale';
+import type { AlarmAction } from '../lib/api';
+import { enumLabel, unitLabel } from '../lib/metasysEnums';
+import { enabledServers, parseRowId } from '../lib/servers';
+import { currentUser } from '../lib/auth';
 import {
-  normalizeValue,
-  mapUnit,
-  formatDateUTCToLocal,
-  type AlarmDTO,
-} from '../lib/api';
-
-type Row = {
-  id: string;            // <- ID COMPOSTO: "<ip>-<id original>"
-  dateTimeISO: string;
-  dateTime: string;
-  site: string;
-  point: string;
-  value: string;
-  unit: string;
-  priority: number;
-  reconhecido: 'Sim' | 'Não';
-  descartado: 'Sim' | 'Não';
-};
-
-type SortKey =
-  | 'dateTime' | 'site' | 'point' | 'value' | 'unit' | 'priority' | 'reconhecido' | 'descartado';
-type SortDir = 'asc' | 'desc';
-
-// ----- Comentários (localStorage) -----
-// Agora usamos o ID COMPOSTO (com IP) como chave p/ não colidir entre backends.
-const COMMENT_KEY = (id: string) => `alarm_comment_${id}`;
-function loadComment(id: string): string {
-  try { return localStorage.getItem(COMMENT_KEY(id)) ?? ''; } catch { return ''; }
-}
-function saveComment(id: string, text: string) {
-  try { localStorage.setItem(COMMENT_KEY(id), text); } catch {}
-}
+  fetchComments,
+  addComment,
+  latestComment,
+  migrateLocalComments,
+  type CommentThreads,
+} from '../lib/comments';
+import { loadMuted, saveMuted } from '../lib/notify';
+import NotifyRules from './NotifyRules';
+import CommentThread from './CommentThread';
+import AlarmDetail from './AlarmDetail';
+import { earlierAlarms } from './pointDetail';
+import ShiftLog from './ShiftLog';
+import { downloadCsv, downloadXlsx, printTable, type ExportCell, type ExportTable } from '../lib/export';
+import {
+  COLUMN_LABELS,
+  DEFAULT_FILTERS,
+  DEFAULT_SORT,
+  loadVisibleCols,
+  saveVisibleCols,
+  parseViewState,
+  serializeViewState,
+  type SortKey,
+  type SortDir,
+  type TriState,
+  type VisibleCols,
+  type ViewState,
+  type Filters,
+} from './viewState';
+import { filterMatchers, filterRows, sortRows, filterErrors as filterErrorList } from './filterRows';
+import type { Row } from './types';
+import MultiSelect from './MultiSelect';
+import { defaultView } from './savedViews';
+import SavedViews from './SavedViews';
+import Dashboard from './Dashboard';
+import {
+  pruneHistory,
+  loadHistory,
+  loadRetentionDays,
+  saveRetentionDays,
+  type HistoryRecord,
+} from './history';
+import {
+  GROUP_BY_LABELS,
+  foldRows,
+  groupLabel,
+  groupRows,
+  loadGroupingPrefs,
+  saveGroupingPrefs,
+  tableEntries,
+  type GroupBy,
+  type TableEntry,
+} from './grouping';
+import { useVirtualRows } from './useVirtualRows';
+import RefreshButton from './RefreshButton';
+import HealthPanel from './HealthPanel';
+import { isStale } from '../lib/health';
+import { alarmFeed } from './alarmFeed';
+import { useAlarmFeed } from './useAlarmFeed';
+import SeverityPanel from './SeverityPanel';
+import { convertRows, loadUnitSystem, saveUnitSystem, UNIT_SYSTEM_LABELS, type UnitSystem } from '../lib/units';
+import {
+  loadSeverityBands,
+  normalizeBands,
+  saveSeverityBands,
+  severityCounts,
+  severityLabel,
+  severityOf,
+  type SeverityBand,
+} from './severity';
 
-// ----- Preferências de colunas (localStorage) -----
-const COLS_KEY = 'alarms_visible_cols';
-type VisibleCols = {
-  dateTime: boolean;
-  site: boolean;
-  point: boolean;
-  value: boolean;
-  unit: boolean;
-  priority: boolean;
-  reconhecido: boolean;
-  descartado: boolean;
-  comentario: boolean;
-};
-function loadVisibleCols(): VisibleCols {
-  try {
-    const raw = localStorage.getItem(COLS_KEY);
-    if (raw) return JSON.parse(raw) as VisibleCols;
-  } catch {}
-  return {
-    dateTime: true,
-    site: true,
-    point: true,
-    value: true,
-    unit: true,
-    priority: true,
-    reconhecido: true,
-    descartado: true,
-    comentario: true,
-  };
-}
-function saveVisibleCols(cols: VisibleCols) {
-  try { localStorage.setItem(COLS_KEY, JSON.stringify(cols)); } catch {}
+// Alturas iniciais (px) até a linha ser medida de verdade
+function estimateEntryHeight(entry: TableEntry): number {
+  return entry.kind === 'drawer' ? 220 : 38;
 }
 
-/* =========================================
-   Dois prefixos de API (proxy do Vite)
-   Ordem: primeiro /api100, depois /api69
-   ========================================= */
-type ApiPrefix = '/api100' | '/api69';
-
-type LoginResponse = { accessToken: string };
-type AlarmsResponse = { total: number; items: AlarmDTO[] };
-
-async function loginP(prefix: ApiPrefix, username: string, password: string): Promise<string> {
-  const res = await fetch(`${prefix}/v3/login`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ username, password }),
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(`Falha no login ${prefix} (${res.status}): ${text || res.statusText}`);
-  }
-  const data = (await res.json()) as LoginResponse;
-  if (!data.accessToken) throw new Error(`Login ${prefix} sem accessToken`);
-  return data.accessToken;
-}
+const BASE_TITLE = document.title; // título da aba sem o contador de novos
 
-async function getAlarmsP(
-  prefix: ApiPrefix,
-  token: string,
-  opts?: { isAcknowledged?: boolean; isDiscarded?: boolean }
-): Promise<AlarmsResponse> {
-  const params = new URLSearchParams();
-  params.append('pageSize', '500');
-  if (opts?.isAcknowledged !== undefined) params.append('isAcknowledged', String(opts.isAcknowledged));
-  if (opts?.isDiscarded !== undefined)   params.append('isDiscarded', String(opts.isDiscarded));
-
-  const res = await fetch(`${prefix}/v3/alarms/?${params.toString()}`, {
-    headers: { Authorization: `Bearer ${token}` },
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(`Falha ao buscar alarmes ${prefix} (${res.status}): ${text || res.statusText}`);
-  }
-  return (await res.json()) as AlarmsResponse;
+// ----- Exportação -----
+function exportFileName(ext: string): string {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${t('export.filePrefix')}-${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}_${pad(d.getHours())}${pad(d.getMinutes())}.${ext}`;
 }
 
-export default function Alarms() {
-  const [rows, setRows] = useState<Row[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [err, setErr] = useState('');
-  const [connectionNote, setConnectionNote] = useState(''); // mostra contagem por origem
+type Props = { onLogout: () => void; onKiosk: () => void };
+
+export default function Alarms({ onLogout, onKiosk }: Props) {
+  // Linhas ao vivo, saúde, novos e normalizados vêm do feed compartilhado (alarmFeed.ts)
+  const feed = useAlarmFeed();
+  const { rows, loading, newIds, cleared, health, refreshedAt, autoRefresh } = feed;
+  const [err, setErr] = useState(''); // ações, exportação e visões salvas
+  const locale = useLocale();
+
+  // Estado inicial da visão vem da URL (link compartilhado); sem parâmetros, da visão padrão salva;
+  // colunas caem nas preferências locais
+  const [initialView] = useState<ViewState>(() =>
+    (!window.location.search && defaultView()?.state)
+    || parseViewState(window.location.search, loadVisibleCols()));
 
   // Filtros
-  const [fSite, setFSite] = useState('');
-  const [fPoint, setFPoint] = useState('');
-  const [fValue, setFValue] = useState('');
-  const [fDateFrom, setFDateFrom] = useState('');
-  const [fDateTo, setFDateTo] = useState('');
-  const [fPriority, setFPriority] = useState('');
-  const [fAck, setFAck] = useState<'all' | 'sim' | 'nao'>('all');
-  const [fDisc, setFDisc] = useState<'all' | 'sim' | 'nao'>('all');
+  const [fSearch, setFSearch] = useState(initialView.filters.search);
+  const [fSite, setFSite] = useState(initialView.filters.site);
+  const [fSites, setFSites] = useState<string[]>(initialView.filters.sites);
+  const [fUnits, setFUnits] = useState<string[]>(initialView.filters.units);
+  const [fServers, setFServers] = useState<string[]>(initialView.filters.servers);
+  const [fSeverities, setFSeverities] = useState<string[]>(initialView.filters.severities);
+  const [fPoint, setFPoint] = useState(initialView.filters.point);
+  const [fValue, setFValue] = useState(initialView.filters.value);
+  const [fDateFrom, setFDateFrom] = useState(initialView.filters.dateFrom);
+  const [fDateTo, setFDateTo] = useState(initialView.filters.dateTo);
+  const [fPriority, setFPriority] = useState(initialView.filters.priority);
+  const [fAck, setFAck] = useState<TriState>(initialView.filters.ack);
+  const [fDisc, setFDisc] = useState<TriState>(initialView.filters.disc);
 
   // Ordenação
-  const [sortKey, setSortKey] = useState<SortKey>('dateTime');
-  const [sortDir, setSortDir] = useState<SortDir>('desc');
+  const [sortKey, setSortKey] = useState<SortKey>(initialView.sortKey);
+  const [sortDir, setSortDir] = useState<SortDir>(initialView.sortDir);
+
+  // Comentários compartilhados (backend /board-api), por ID composto.
+  // expanded = linhas com a gaveta de notas aberta
+  const [threads, setThreads] = useState<CommentThreads>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [commentsErr, setCommentsErr] = useState('');
 
-  // Auto-refresh
-  const [autoRefresh, setAutoRefresh] = useState(true);
-  const [secondsLeft, setSecondsLeft] = useState(60);
-  const intervalRef = useRef<number | null>(null);
+  // Fonte das linhas: leitura atual dos servidores ou arquivo local (IndexedDB)
+  const [source, setSource] = useState<'live' | 'history'>('live');
+  const [historyRecords, setHistoryRecords] = useState<HistoryRecord[]>([]);
+  const [retentionDays, setRetentionDays] = useState(() => loadRetentionDays());
+  const [historyErr, setHistoryErr] = useState('');
 
-  // Comentários em memória (id → texto)
-  const [comments, setComments] = useState<Record<string, string>>({});
+  // Tabela de alarmes, painel de análise ou passagem de turno (notas de todos os alarmes)
+  const [view, setView] = useState<'table' | 'dashboard' | 'shift'>('table');
+
+  // Notificações (regras ficam no localStorage; ver lib/notify)
+  const [muted, setMuted] = useState(() => loadMuted());
+  const [showRules, setShowRules] = useState(false);
+
+  // Faixas de severidade (preferência local; ver severity.ts)
+  const [bands, setBands] = useState<SeverityBand[]>(() => loadSeverityBands());
+  const [showSeverity, setShowSeverity] = useState(false);
+  function changeBands(next: SeverityBand[]) {
+    const normalized = normalizeBands(next);
+    setBands(normalized);
+    saveSeverityBands(normalized);
+  }
+  function toggleMuted() {
+    setMuted((m) => {
+      saveMuted(!m);
+      return !m;
+    });
+  }
+
+  // Seleção p/ ações em lote + anotação opcional enviada ao Metasys
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [annotation, setAnnotation] = useState('');
+  const [acting, setActing] = useState(false);
 
   // Visibilidade de colunas
-  const [visibleCols, setVisibleCols] = useState<VisibleCols>(() => loadVisibleCols());
+  const [visibleCols, setVisibleCols] = useState<VisibleCols>(initialView.cols);
   function toggleCol(col: keyof VisibleCols) {
     setVisibleCols((prev) => {
       const next = { ...prev, [col]: !prev[col] };
@@ -151,179 +176,246 @@ export default function Alarms() {
     });
   }
 
-  async function fetchFrom(prefix: ApiPrefix, opts: { isAcknowledged?: boolean; isDiscarded?: boolean }) {
-    const token = await loginP(prefix, 'api', 'GMX3-Rel.10');
-    const data = await getAlarmsP(prefix, token, opts);
-    return data.items;
+  // Agrupamento e deduplicação (preferência local, fora da URL)
+  const [grouping, setGrouping] = useState(() => loadGroupingPrefs());
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [openRepeats, setOpenRepeats] = useState<Set<string>>(new Set());
+  function changeGrouping(patch: Partial<typeof grouping>) {
+    const next = { ...grouping, ...patch };
+    setGrouping(next);
+    saveGroupingPrefs(next);
+    if (patch.groupBy) setCollapsedGroups(new Set());
   }
 
-  async function fetchData() {
-    setLoading(true);
-    setErr('');
-    setConnectionNote('');
-    try {
-      const opts = {
-        isAcknowledged: fAck === 'all' ? undefined : fAck === 'sim',
-        isDiscarded:   fDisc === 'all' ? undefined : fDisc === 'sim',
-      };
-
-      // Ordem: /api100 depois /api69 — juntando resultados
-      const itemsAll: { fromIp: '10.2.1.100' | '10.2.1.69'; item: AlarmDTO }[] = [];
-      const successes: string[] = [];
-      const failures: string[] = [];
-      let c100 = 0, c69 = 0;
-
-      try {
-        const a100 = await fetchFrom('/api100', opts);
-        c100 = a100.length;
-        itemsAll.push(...a100.map(i => ({ fromIp: '10.2.1.100', item: i })));
-        successes.push('10.2.1.100');
-      } catch (e) {
-        failures.push('10.2.1.100');
-      }
+  const [showHealth, setShowHealth] = useState(false);
 
-      try {
-        const a69 = await fetchFrom('/api69', opts);
-        c69 = a69.length;
-        itemsAll.push(...a69.map(i => ({ fromIp: '10.2.1.69', item: i })));
-        successes.push('10.2.1.69');
-      } catch (e) {
-        failures.push('10.2.1.69');
-      }
+  // Gaveta de detalhe (clique na linha): ponto no servidor de origem + ocorrências anteriores
+  const [detailId, setDetailId] = useState<string | null>(null);
 
-      if (successes.length === 2) {
-        setConnectionNote(`Conectado (100: ${c100} + 69: ${c69})`);
-      } else if (successes.length === 1) {
-        setConnectionNote(`Parcial — ok: ${successes[0]} / falha: ${failures.join(', ')}`);
-      } else {
-        setConnectionNote('Falha nas duas conexões');
-      }
+  // Filtro de reconhecido/descartado também vai ao servidor; mudou -> relê já (as linhas vieram com o filtro antigo)
+  useEffect(() => {
+    const changed = alarmFeed.setQuery({
+      isAcknowledged: fAck === 'all' ? undefined : fAck === 'sim',
+      isDiscarded:   fDisc === 'all' ? undefined : fDisc === 'sim',
+    });
+    if (changed) void alarmFeed.refresh();
+  }, [fAck, fDisc]);
+
+  // Comentários à parte: recarrega a cada atualização; backend fora do ar não derruba a tabela.
+  // A migração dos comentários antigos do localStorage roda uma vez, antes da primeira leitura.
+  const migrationRef = useRef<Promise<void> | null>(null);
+  useEffect(() => {
+    migrationRef.current = migrateLocalComments(currentUser())
+      .then(() => undefined)
+      .catch((e) => setCommentsErr(e instanceof Error ? e.message : String(e)));
+  }, []);
+  useEffect(() => {
+    let cancelled = false;
+    (migrationRef.current ?? Promise.resolve())
+      .then(() => fetchComments())
+      .then((loaded) => {
+        if (cancelled) return;
+        setThreads(loaded);
+        setCommentsErr('');
+      })
+      .catch((e) => { if (!cancelled) setCommentsErr(e instanceof Error ? e.message : String(e)); });
+    return () => { cancelled = true; };
+  }, [refreshedAt]);
+
+  // Arquivo local: recarrega o histórico quando o feed termina de gravar uma leitura
+  useEffect(() => {
+    if (source === 'history') void refreshHistory();
+  }, [source, feed.archivedAt]);
 
-      // Mapeia linhas com ID COMPOSTO
-      const mapped: Row[] = itemsAll.map(({ fromIp, item: a }) => {
-        const composedId = `${fromIp}-${a.id}`;
-        return {
-          id: composedId,
-          dateTimeISO: a.creationTime,
-          dateTime: formatDateUTCToLocal(a.creationTime),
-          site: a.itemReference,
-          point: a.name || a.itemReference,
-          value: normalizeValue(a.triggerValue?.value),
-          unit: mapUnit(a.triggerValue?.units),
-          priority: Number.isFinite(a.priority as unknown as number) ? (a.priority as unknown as number) : 0,
-          reconhecido: a.isAcknowledged ? 'Sim' : 'Não',
-          descartado: a.isDiscarded ? 'Sim' : 'Não',
-        };
-      });
-
-      setRows(mapped);
-
-      // Hidrata comentários considerando o ID composto
-      const nextComments: Record<string, string> = {};
-      for (const r of mapped) nextComments[r.id] = loadComment(r.id);
-      setComments(nextComments);
-    } catch (e: any) {
-      setErr(e?.message || 'Erro desconhecido');
-    } finally {
-      setLoading(false);
-      setSecondsLeft(60);
+  // Reconhecer/Descartar no servidor de origem (tirado do ID composto).
+  // Atualiza a tabela na hora e desfaz nas linhas cuja chamada falhar.
+  async function runAction(ids: string[], action: AlarmAction) {
+    setActing(true);
+    setErr('');
+    const { targets, failed, messages } = await alarmFeed.act(ids, action, annotation);
+    if (failed.length > 0) {
+      setErr(t('bulk.failed', { failed: failed.length, total: targets.length, message: messages[0] }));
+    } else if (targets.length > 0) {
+      setAnnotation('');
     }
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const id of targets) if (!failed.includes(id)) next.delete(id);
+      return next;
+    });
+    setActing(false);
+  }
+
+  function toggleSelected(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
   }
 
-  // carrega primeira vez
-  useEffect(() => { fetchData(); /* eslint-disable-next-line react-hooks/exhaustive-deps */ }, []);
+  // Marca/desmarca vários de uma vez (grupo ou ocorrências repetidas)
+  function toggleSelectedMany(ids: string[]) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const all = ids.every((id) => next.has(id));
+      for (const id of ids) if (all) next.delete(id); else next.add(id);
+      return next;
+    });
+  }
 
-  // Loop do auto-refresh (1s) com disparo do fetch a cada 60s
-  useEffect(() => {
-    if (!autoRefresh) {
-      if (intervalRef.current) { window.clearInterval(intervalRef.current); intervalRef.current = null; }
-      return;
+  async function refreshHistory() {
+    try {
+      setHistoryRecords(await loadHistory());
+      setHistoryErr('');
+    } catch (e) {
+      setHistoryErr(e instanceof Error ? e.message : String(e));
     }
-    if (!intervalRef.current) {
-      intervalRef.current = window.setInterval(() => {
-        setSecondsLeft((s) => {
-          if (s <= 1) { fetchData(); return 60; }
-          return s - 1;
-        });
-      }, 1000);
+  }
+
+  // Só aplica ao sair do campo: digitar "30" passaria por "3" e apagaria registros
+  function commitRetention(days: number) {
+    if (!Number.isFinite(days) || days <= 0) {
+      setRetentionDays(loadRetentionDays());
+      return;
     }
-    return () => {
-      if (intervalRef.current) { window.clearInterval(intervalRef.current); intervalRef.current = null; }
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoRefresh]);
+    saveRetentionDays(days);
+    pruneHistory(days)
+      .then(() => refreshHistory())
+      .catch((e) => setHistoryErr(e instanceof Error ? e.message : String(e)));
+  }
+
+  // Linhas de trabalho: filtros, ordenação, análise e exportação valem p/ as duas fontes
+  const historyById = useMemo(() => new Map(historyRecords.map((h) => [h.id, h])), [historyRecords]);
+  // Unidades no sistema preferido: só na exibição (feed e histórico guardam o valor do Metasys)
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(() => loadUnitSystem());
+  function changeUnitSystem(next: UnitSystem) {
+    setUnitSystem(next);
+    saveUnitSystem(next);
+  }
+
+  const baseRows = useMemo(
+    () => convertRows(source === 'live' ? rows : historyRecords.map((h) => h.row), unitSystem),
+    [source, rows, historyRecords, unitSystem]
+  );
+
+  // Alarme que some das linhas (normalizou, troca de fonte) fecha a gaveta
+  const detailRow = useMemo(() => (detailId ? baseRows.find((r) => r.id === detailId) : undefined), [detailId, baseRows]);
+  const detailEarlier = useMemo(() => (detailRow ? earlierAlarms(baseRows, detailRow) : []), [detailRow, baseRows]);
+
+  // Contador de novos também no título da aba
+  useEffect(() => {
+    document.title = newIds.size > 0 ? `(${newIds.size}) ${BASE_TITLE}` : BASE_TITLE;
+  }, [newIds]);
 
   // Limpar filtros (não refaz fetch; limpa filtros locais)
   function clearFilters() {
-    setFSite(''); setFPoint(''); setFValue('');
-    setFDateFrom(''); setFDateTo('');
-    setFPriority('');
-    setFAck('all'); setFDisc('all');
+    applyViewState({ filters: DEFAULT_FILTERS, ...DEFAULT_SORT, cols: visibleCols });
+  }
+
+  function applyViewState(v: ViewState) {
+    const f = v.filters;
+    setFSearch(f.search);
+    setFSite(f.site); setFSites(f.sites); setFPoint(f.point); setFValue(f.value); setFUnits(f.units);
+    setFServers(f.servers);
+    setFSeverities(f.severities);
+    setFDateFrom(f.dateFrom); setFDateTo(f.dateTo);
+    setFPriority(f.priority);
+    setFAck(f.ack); setFDisc(f.disc);
+
+    setSortKey(v.sortKey);
+    setSortDir(v.sortDir);
+    setVisibleCols(v.cols);
+  }
 
-    setSortKey('dateTime');
-    setSortDir('desc');
+  // Clique num gráfico do painel: soma o filtro ao atual e mostra a tabela
+  function applyFilterPatch(patch: Partial<Filters>) {
+    applyViewState({ ...viewState, filters: { ...filters, ...patch } });
+    setView('table');
   }
 
+  // Visão atual -> URL (nova entrada no histórico após uma pausa na digitação)
+  const filters = useMemo<Filters>(() => ({
+    search: fSearch,
+    site: fSite, sites: fSites, point: fPoint, value: fValue, units: fUnits, servers: fServers,
+    severities: fSeverities, dateFrom: fDateFrom, dateTo: fDateTo,
+    priority: fPriority, ack: fAck, disc: fDisc,
+  }), [fSearch, fSite, fSites, fPoint, fValue, fUnits, fServers, fSeverities, fDateFrom, fDateTo, fPriority, fAck, fDisc]);
+  const viewState = useMemo<ViewState>(
+    () => ({ filters, sortKey, sortDir, cols: visibleCols }),
+    [filters, sortKey, sortDir, visibleCols],
+  );
+
+  const urlSyncedRef = useRef(false);
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const search = serializeViewState(viewState);
+      if (search !== window.location.search) {
+        const url = `${window.location.pathname}${search}${window.location.hash}`;
+        // a 1ª sincronização só normaliza a URL de entrada, sem criar entrada no histórico
+        if (urlSyncedRef.current) window.history.pushState(null, '', url);
+        else window.history.replaceState(null, '', url);
+      }
+      urlSyncedRef.current = true;
+    }, 400);
+    return () => window.clearTimeout(timer);
+  }, [viewState]);
+
+  // Voltar/avançar do navegador -> restaura a visão daquela URL
+  useEffect(() => {
+    const onPop = () => applyViewState(parseViewState(window.location.search, loadVisibleCols()));
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  }, []);
+
   // Filtros locais
-  const filtered = useMemo(() => {
-    const from = fDateFrom ? new Date(`${fDateFrom}T00:00:00`).getTime() : undefined;
-    const to   = fDateTo   ? new Date(`${fDateTo}T23:59:59.999`).getTime() : undefined;
-    const inc = (h: string, n: string) => h.toLowerCase().includes(n.trim().toLowerCase());
-
-    const priNum = fPriority.trim() !== '' ? Number(fPriority) : undefined;
-    const priIsNum = priNum !== undefined && !Number.isNaN(priNum);
-
-    return rows.filter((r) => {
-      const passSite  = !fSite || inc(r.site, fSite);
-      const passPoint = !fPoint || inc(r.point, fPoint);
-      const passValue = !fValue || inc(String(r.value), fValue);
-
-      const ts = new Date(r.dateTimeISO).getTime();
-      const passFrom = from === undefined ? true : ts >= from;
-      const passTo   = to   === undefined ? true : ts <= to;
-
-      const passAck  = fAck  === 'all' || (fAck  === 'sim' ? r.reconhecido === 'Sim' : r.reconhecido === 'Não');
-      const passDisc = fDisc === 'all' || (fDisc === 'sim' ? r.descartado  === 'Sim' : r.descartado  === 'Não');
-
-      const passPriority =
-        fPriority.trim() === ''
-          ? true
-          : priIsNum
-            ? r.priority === priNum
-            : String(r.priority).includes(fPriority.trim());
-
-      return passSite && passPoint && passValue && passFrom && passTo && passAck && passDisc && passPriority;
-    });
-  }, [rows, fSite, fPoint, fValue, fDateFrom, fDateTo, fAck, fDisc, fPriority]);
+  // Expressões dos filtros de texto/prioridade (negação, regex, faixas — ver lib/filterExpr)
+  const matchers = useMemo(() => filterMatchers(filters, bands), [filters, bands]);
+
+  // Opções das seleções múltiplas vêm das linhas carregadas
+  const siteOptions = useMemo(() => [...new Set(baseRows.map((r) => r.site))].sort((a, b) => a.localeCompare(b)), [baseRows]);
+  const serverOptions = useMemo(() => enabledServers().map((srv) => srv.label), []);
+  const unitOptions = useMemo(() => [...new Set(baseRows.map((r) => r.unit))].sort((a, b) => a.localeCompare(b)), [baseRows]);
+
+  const filtered = useMemo(
+    () => filterRows(baseRows, filters, matchers, (id) => latestComment(threads[id])?.text ?? ''),
+    [baseRows, filters, matchers, threads],
+  );
+
+  const filterErrors = filterErrorList(matchers);
 
   // Ordenação
-  const sorted = useMemo(() => {
-    const data = [...filtered];
-    const dir = sortDir === 'asc' ? 1 : -1;
-    data.sort((a, b) => {
-      switch (sortKey) {
-        case 'dateTime': {
-          const ta = new Date(a.dateTimeISO).getTime();
-          const tb = new Date(b.dateTimeISO).getTime();
-          return (ta - tb) * dir;
-        }
-        case 'site':         return a.site.localeCompare(b.site) * dir;
-        case 'point':        return a.point.localeCompare(b.point) * dir;
-        case 'unit':         return a.unit.localeCompare(b.unit) * dir;
-        case 'reconhecido':  return a.reconhecido.localeCompare(b.reconhecido) * dir;
-        case 'descartado':   return a.descartado.localeCompare(b.descartado) * dir;
-        case 'priority':     return (a.priority - b.priority) * dir;
-        case 'value': {
-          const na = parseFloat(a.value.replace(',', '.'));
-          const nb = parseFloat(b.value.replace(',', '.'));
-          if (!Number.isNaN(na) && !Number.isNaN(nb)) return (na - nb) * dir;
-          return a.value.localeCompare(b.value) * dir;
-        }
-        default: return 0;
-      }
+  const sorted = useMemo(() => sortRows(filtered, sortKey, sortDir, bands), [filtered, sortKey, sortDir, bands]);
+
+  // Contagem por severidade com os demais filtros (os selos da barra ligam/desligam o filtro de severidade)
+  const severityTotals = useMemo(() => {
+    if (filters.severities.length === 0) return severityCounts(filtered.map((r) => r.priority), bands);
+    const others = { ...filters, severities: [] };
+    const rowsAll = filterRows(baseRows, others, filterMatchers(others, bands), (id) => latestComment(threads[id])?.text ?? '');
+    return severityCounts(rowsAll.map((r) => r.priority), bands);
+  }, [filtered, filters, baseRows, bands, threads]);
+  function toggleSeverity(id: string) {
+    setFSeverities((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  }
+
+  const folded = useMemo(() => foldRows(sorted, grouping.dedupe), [sorted, grouping.dedupe]);
+  const groups = useMemo(
+    () => (grouping.groupBy === 'none' ? null : groupRows(folded, grouping.groupBy, bands)),
+    [folded, grouping.groupBy, bands],
+  );
+  const entries = useMemo(
+    () => tableEntries(folded, groups, { collapsedGroups, openRepeats, openDrawers: expanded }),
+    [folded, groups, collapsedGroups, openRepeats, expanded],
+  );
+  const { start, end, padTop, padBottom, scrollRef, measure } = useVirtualRows(entries, estimateEntryHeight);
+
+  function toggleIn(setter: typeof setCollapsedGroups, key: string) {
+    setter((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
     });
-    return data;
-  }, [filtered, sortKey, sortDir]);
+  }
 
   function onSort(key: SortKey) {
     if (sortKey === key) {
@@ -337,60 +429,283 @@ export default function Alarms() {
   const arrow = (key: SortKey) =>
     sortKey === key ? (sortDir === 'asc' ? '▲' : '▼') : '↕';
 
-  const btnLabel = loading
-    ? 'Atualizando…'
-    : autoRefresh
-      ? `Atualizar alarmes (${secondsLeft}s)`
-      : 'Atualizar alarmes';
+  function toggleExpanded(id: string) {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  }
 
-  function handleCommentChange(id: string, value: string) {
-    setComments((prev) => ({ ...prev, [id]: value }));
+  // Cada nota é uma nova entrada no histórico (com autor e hora); nada é sobrescrito
+  async function handleAddNote(id: string, text: string) {
+    try {
+      const entry = await addComment(id, currentUser(), text);
+      setThreads((prev) => ({ ...prev, [id]: [...(prev[id] ?? []), entry] }));
+      setCommentsErr('');
+    } catch (e) {
+      setCommentsErr(e instanceof Error ? e.message : String(e));
+      throw e; // a gaveta mantém o texto p/ tentar de novo
+    }
   }
-  function handleCommentBlur(id: string) {
-    saveComment(id, comments[id] ?? '');
+
+  function describeAlarm(id: string): string {
+    const r = rows.find((x) => x.id === id) ?? historyById.get(id)?.row;
+    return r ? `${r.point} — ${r.site}` : id;
   }
 
-  return (
-    <div className="alarms-container">
-      <div className="alarms-toolbar">
-        <button onClick={fetchData} disabled={loading} className="btn-refresh mono">
-          {btnLabel}
-        </button>
+  // Visão atual p/ exportar: linhas de "sorted", colunas visíveis (sem Ações) + servidor de origem
+  function buildExportTable(): ExportTable {
+    const cols = COLUMN_LABELS.filter(([key]) => visibleCols[key] && key !== 'acoes');
+    const cellFor = (r: Row, key: keyof VisibleCols): ExportCell => {
+      switch (key) {
+        case 'value': {
+          const n = Number(r.value.replace(',', '.'));
+          return r.value.trim() !== '' && Number.isFinite(n) ? n : enumLabel(r.value);
+        }
+        case 'unit': return unitLabel(r.unit);
+        case 'priority': return r.priority;
+        case 'severity': return severityLabel(severityOf(r.priority, bands).id);
+        case 'dateTime': return formatDateTime(r.dateTimeISO);
+        case 'reconhecido':
+        case 'descartado': return yesNo(r[key]);
+        case 'comentario':
+          return (threads[r.id] ?? [])
+            .map((c) => `${c.author} (${formatDateTime(c.createdAt)}): ${c.text}`)
+            .join(' | ');
+        case 'acoes': return '';
+        default: return r[key];
+      }
+    };
+    return {
+      columns: [t('col.server'), ...cols.map(([, label]) => t(label))],
+      rows: sorted.map((r) => [
+        parseRowId(r.id)?.server.label ?? '',
+        ...cols.map(([key]) => cellFor(r, key)),
+      ]),
+    };
+  }
+
+  async function handleExport(kind: 'csv' | 'xlsx' | 'print') {
+    try {
+      const table = buildExportTable();
+      if (kind === 'csv') downloadCsv(table, exportFileName('csv'));
+      else if (kind === 'xlsx') await downloadXlsx(table, exportFileName('xlsx'));
+      else printTable(table, t('export.reportTitle', { at: formatDateTime(Date.now()) }));
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  // Servidores cujas linhas vêm de uma leitura ok antiga (falhando desde então)
+  const staleServers = enabledServers().filter((srv) => isStale(health[srv.name], refreshedAt));
 
-        <label className="auto-toggle">
+  const isHistory = source === 'history';
+  const showActions = visibleCols.acoes && !isHistory; // histórico pode estar desatualizado: sem ações
+  const colCount = Object.values(visibleCols).filter(Boolean).length + 1 // +1 = seleção
+    + (isHistory ? 3 : 0) - (visibleCols.acoes && isHistory ? 1 : 0);
+
+  // Um item da janela virtual: cabeçalho de grupo, linha (repetida ou não) ou gaveta de notas
+  function renderEntry(entry: TableEntry, index: number) {
+    const key = entry.key;
+    const ref = measure(key);
+    if (entry.kind === 'group') {
+      const g = entry.group;
+      const ids = g.items.flatMap((item) => [item.row.id, ...item.repeats.map((r) => r.id)]);
+      return (
+        <tr key={key} ref={ref} className="group-header" onClick={() => toggleIn(setCollapsedGroups, g.key)}>
+          <td className="col-select" onClick={(e) => e.stopPropagation()}>
+            <input
+              type="checkbox"
+              title={t('group.selectTitle')}
+              checked={ids.every((id) => selected.has(id))}
+              onChange={() => toggleSelectedMany(ids)}
+            />
+          </td>
+          <td colSpan={colCount - 1}>
+            <span className="group-toggle">{entry.collapsed ? '▸' : '▾'}</span>
+            <strong>{groupLabel(g, grouping.groupBy)}</strong>
+            <span className="group-meta">
+              {t('group.meta', { count: g.count, newest: formatDateTime(g.newestISO), top: g.topPriority })}
+            </span>
+          </td>
+        </tr>
+      );
+    }
+
+    const r = entry.row;
+    const thread = threads[r.id];
+    if (entry.kind === 'drawer') {
+      return (
+        <tr key={key} ref={ref} className="row-drawer">
+          <td colSpan={colCount}>
+            <CommentThread thread={thread ?? []} onAdd={(text) => handleAddNote(r.id, text)} />
+          </td>
+        </tr>
+      );
+    }
+
+    const { repeats, isRepeat } = entry;
+    const latest = latestComment(thread);
+    const isNew = newIds.has(r.id);
+    // zebra pelo índice absoluto: com a janela, :nth-child mudaria ao rolar
+    const rowClass = [
+      'sev-row', index % 2 === 1 && 'row-even', latest && 'has-comment', isNew && 'is-new', isRepeat && 'is-repeat',
+      r.id === detailId && 'is-detail',
+    ].filter(Boolean).join(' ');
+    const sev = severityOf(r.priority, bands);
+    const isOpen = expanded.has(r.id);
+    const hist = isHistory ? historyById.get(r.id) : undefined;
+    return (
+      <tr
+        key={key}
+        ref={ref}
+        className={rowClass}
+        style={{ '--sev': sev.color } as CSSProperties}
+        onMouseEnter={isNew ? () => alarmFeed.markSeen(r.id) : undefined}
+        onClick={(e) => {
+          // botões e caixas de seleção da linha têm ação própria
+          if (!(e.target as HTMLElement).closest('button, input, a')) setDetailId(r.id);
+        }}
+      >
+        <td className="col-select">
           <input
             type="checkbox"
-            checked={autoRefresh}
-            onChange={(e) => setAutoRefresh(e.target.checked)}
+            checked={selected.has(r.id)}
+            onChange={() => toggleSelected(r.id)}
           />
-          Auto (1 min)
-        </label>
+          {isNew && <span className="badge-new">{t('table.new')}</span>}
+          {repeats.length > 0 && (
+            <button
+              className="badge-repeat"
+              title={t('group.repeatsTitle')}
+              onClick={() => toggleIn(setOpenRepeats, r.id)}
+            >
+              ×{repeats.length + 1}
+            </button>
+          )}
+        </td>
+        {visibleCols.dateTime && <td>{formatDateTime(r.dateTimeISO)}</td>}
+        {visibleCols.site && <td>{r.site}</td>}
+        {visibleCols.point && <td>{r.point}</td>}
+        {visibleCols.value && <td>{enumLabel(r.value)}</td>}
+        {visibleCols.unit && <td>{unitLabel(r.unit)}</td>}
+        {visibleCols.priority && <td className="col-priority">{r.priority}</td>}
+        {visibleCols.severity && <td className="col-severity"><span className="sev-badge">{severityLabel(sev.id)}</span></td>}
+        {visibleCols.reconhecido && <td>{yesNo(r.reconhecido)}</td>}
+        {visibleCols.descartado && <td>{yesNo(r.descartado)}</td>}
+        {hist && (
+          <>
+            <td>{formatDateTime(hist.firstSeen)}</td>
+            <td>{formatDateTime(hist.lastSeen)}</td>
+            <td title={hist.changes.map((c) => t('history.change', {
+              at: formatDateTime(c.at),
+              field: t(c.field === 'ativo' ? 'col.active' : `col.${c.field}`),
+              from: yesNo(c.from),
+              to: yesNo(c.to),
+            })).join('\n')}>
+              {hist.clearedAt ? formatDateTime(hist.clearedAt) : t('col.active')}
+            </td>
+          </>
+        )}
+        {visibleCols.comentario && (
+          <td className="comment-cell">
+            <button className="btn-row" onClick={() => toggleExpanded(r.id)} title={t('table.notesTitle')}>
+              {isOpen ? '▾' : '▸'} {thread?.length ?? 0}
+            </button>
+            {latest && (
+              <span className="comment-latest" title={latest.text}>
+                {latest.text}
+                <span className="comment-meta"> — {latest.author}, {formatDateTime(latest.createdAt)}</span>
+              </span>
+            )}
+          </td>
+        )}
+        {showActions && (
+          <td className="actions-cell">
+            <button
+              className="btn-row"
+              disabled={acting || r.reconhecido}
+              onClick={() => runAction([r.id], 'acknowledge')}
+            >
+              {t('table.acknowledge')}
+            </button>
+            <button
+              className="btn-row"
+              disabled={acting || r.descartado}
+              onClick={() => runAction([r.id], 'discard')}
+            >
+              {t('table.discard')}
+            </button>
+          </td>
+        )}
+      </tr>
+    );
+  }
+
+  return (
+    <div className="alarms-container">
+      <div className="alarms-toolbar">
+        <RefreshButton
+          loading={loading}
+          autoRefresh={autoRefresh}
+          nextAt={refreshedAt + alarmFeed.periodMs}
+          periodMs={alarmFeed.periodMs}
+          live={feed.live}
+          onClick={() => alarmFeed.refresh(true)}
+        />
+
+        {!feed.live && (
+          <label className="auto-toggle">
+            <input
+              type="checkbox"
+              checked={autoRefresh}
+              onChange={(e) => alarmFeed.setAutoRefresh(e.target.checked)}
+            />
+            {t('toolbar.auto')}
+          </label>
+        )}
 
         <input
-          className="filter-input"
-          placeholder="Filtro por Site"
+          className={`filter-input${matchers.search.error ? ' invalid' : ''}`}
+          placeholder={t('filter.search')}
+          value={fSearch}
+          onChange={(e) => setFSearch(e.target.value)}
+          title={t('filter.textHelp')}
+        />
+        <input
+          className={`filter-input${matchers.site.error ? ' invalid' : ''}`}
+          placeholder={t('filter.site')}
           value={fSite}
           onChange={(e) => setFSite(e.target.value)}
+          title={t('filter.textHelp')}
         />
+        <MultiSelect label={t('filter.sites')} options={siteOptions} selected={fSites} onChange={setFSites} />
         <input
-          className="filter-input"
-          placeholder="Filtro por Ponto"
+          className={`filter-input${matchers.point.error ? ' invalid' : ''}`}
+          placeholder={t('filter.point')}
           value={fPoint}
           onChange={(e) => setFPoint(e.target.value)}
+          title={t('filter.textHelp')}
         />
         <input
-          className="filter-input"
-          placeholder="Filtro por Valor"
+          className={`filter-input${matchers.value.error ? ' invalid' : ''}`}
+          placeholder={t('filter.value')}
           value={fValue}
           onChange={(e) => setFValue(e.target.value)}
+          title={t('filter.textHelp')}
         />
+        <MultiSelect label={t('filter.units')} options={unitOptions} format={unitLabel} selected={fUnits} onChange={setFUnits} />
+        {serverOptions.length > 1 && (
+          <MultiSelect label={t('filter.servers')} options={serverOptions} selected={fServers} onChange={setFServers} />
+        )}
 
         <input
           className="filter-input small"
           type="date"
           value={fDateFrom}
           onChange={(e) => setFDateFrom(e.target.value)}
-          title="Data: De"
+          title={t('filter.dateFrom')}
         />
         <span className="range-dash">—</span>
         <input
@@ -398,167 +713,373 @@ export default function Alarms() {
           type="date"
           value={fDateTo}
           onChange={(e) => setFDateTo(e.target.value)}
-          title="Data: Até"
+          title={t('filter.dateTo')}
         />
 
         <input
-          className="filter-input small"
-          placeholder="Prioridade"
+          className={`filter-input small${matchers.priority.error ? ' invalid' : ''}`}
+          placeholder={t('filter.priority')}
           value={fPriority}
           onChange={(e) => setFPriority(e.target.value)}
-          title="Prioridade (ex: 0, 1, 2...)"
+          title={t('filter.priorityHelp')}
         />
 
         <select
           className="filter-select"
           value={fAck}
-          onChange={(e) => setFAck(e.target.value as 'all' | 'sim' | 'nao')}
-          title="Reconhecido"
+          onChange={(e) => setFAck(e.target.value as TriState)}
+          title={t('col.reconhecido')}
         >
-          <option value="all">Reconhecido: Todos</option>
-          <option value="sim">Reconhecido: Sim</option>
-          <option value="nao">Reconhecido: Não</option>
+          <option value="all">{t('filter.ackAll')}</option>
+          <option value="sim">{t('filter.ackYes')}</option>
+          <option value="nao">{t('filter.ackNo')}</option>
         </select>
 
         <select
           className="filter-select"
           value={fDisc}
-          onChange={(e) => setFDisc(e.target.value as 'all' | 'sim' | 'nao')}
-          title="Descartado"
+          onChange={(e) => setFDisc(e.target.value as TriState)}
+          title={t('col.descartado')}
         >
-          <option value="all">Descartado: Todos</option>
-          <option value="sim">Descartado: Sim</option>
-          <option value="nao">Descartado: Não</option>
+          <option value="all">{t('filter.discAll')}</option>
+          <option value="sim">{t('filter.discYes')}</option>
+          <option value="nao">{t('filter.discNo')}</option>
         </select>
 
-        <button onClick={clearFilters} className="btn-clear">Limpar filtros</button>
+        <button onClick={clearFilters} className="btn-clear">{t('filter.clear')}</button>
+
+        <select
+          className="filter-select"
+          value={source}
+          onChange={(e) => setSource(e.target.value as 'live' | 'history')}
+          title={t('source.title')}
+        >
+          <option value="live">{t('source.live')}</option>
+          <option value="history">{t('source.history')}</option>
+        </select>
+        {isHistory && (
+          <label className="auto-toggle" title={t('history.retentionTitle')}>
+            {t('history.retention')}
+            <input
+              className="filter-input small retention-input"
+              type="number"
+              min={1}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(Number(e.target.value))}
+              onBlur={() => commitRetention(retentionDays)}
+            />
+            {t('history.retentionDays')}
+          </label>
+        )}
+
+        <select
+          className="filter-select"
+          value={grouping.groupBy}
+          onChange={(e) => changeGrouping({ groupBy: e.target.value as GroupBy })}
+          title={t('group.title')}
+        >
+          {GROUP_BY_LABELS.map(([key, label]) => (
+            <option key={key} value={key}>{key === 'none' ? t(label) : t('group.option', { label: t(label) })}</option>
+          ))}
+        </select>
+        <select
+          className="filter-select"
+          value={unitSystem}
+          onChange={(e) => changeUnitSystem(e.target.value as UnitSystem)}
+          title={t('units.title')}
+        >
+          {UNIT_SYSTEM_LABELS.map(([key, label]) => (
+            <option key={key} value={key}>{t('units.option', { label: t(label) })}</option>
+          ))}
+        </select>
+        <label className="auto-toggle" title={t('group.dedupeTitle')}>
+          <input
+            type="checkbox"
+            checked={grouping.dedupe}
+            onChange={(e) => changeGrouping({ dedupe: e.target.checked })}
+          />
+          {t('group.dedupe')}
+        </label>
+
+        <SavedViews current={viewState} onApply={applyViewState} onError={setErr} />
 
         <span className="status">
-          {err ? `Erro: ${err}` : connectionNote || '—'}
+          {err || feed.error ? t('toolbar.error', { message: err || feed.error }) : feed.connectionNote || '—'}
+        </span>
+        {filterErrors.length > 0 && <span className="status warn">{filterErrors.join(' · ')}</span>}
+        {feed.truncatedNote && <span className="status warn">{feed.truncatedNote}</span>}
+        {commentsErr && <span className="status warn">{t('toolbar.commentsError', { message: commentsErr })}</span>}
+        {(historyErr || feed.archiveError) && (
+          <span className="status warn">{t('toolbar.historyError', { message: historyErr || feed.archiveError })}</span>
+        )}
+        <span className="count">
+          {t('toolbar.total', { count: sorted.length })}
+          {grouping.dedupe && folded.length !== sorted.length && t('toolbar.points', { count: folded.length })}
+        </span>
+        <span className="severity-chips">
+          {bands.map((b) => (
+            <button
+              key={b.id}
+              className={fSeverities.includes(b.id) ? 'sev-chip active' : 'sev-chip'}
+              style={{ '--sev': b.color } as CSSProperties}
+              title={t('severity.chipTitle', { min: b.min, max: b.max })}
+              onClick={() => toggleSeverity(b.id)}
+            >
+              {severityLabel(b.id)} <strong>{severityTotals.get(b.id) ?? 0}</strong>
+            </button>
+          ))}
         </span>
-        <span className="count">Total: {sorted.length}</span>
+        {newIds.size > 0 && (
+          <button
+            className="badge-new badge-btn"
+            title={t('toolbar.markSeen')}
+            onClick={() => alarmFeed.clearNew()}
+          >
+            {t('toolbar.new', { count: newIds.size })}
+          </button>
+        )}
+
+        <button onClick={() => setShowRules((v) => !v)} className="btn-clear">
+          {t('toolbar.notifications')}
+        </button>
+        <button onClick={() => setShowSeverity((v) => !v)} className="btn-clear">
+          {t('toolbar.severity')}
+        </button>
+        <label className="auto-toggle" title={t('toolbar.muteTitle')}>
+          <input type="checkbox" checked={muted} onChange={toggleMuted} />
+          {t('toolbar.mute')}
+        </label>
+
+        <div className="view-tabs">
+          {([
+            ['table', 'toolbar.viewTable'],
+            ['dashboard', 'toolbar.viewDashboard'],
+            ['shift', 'toolbar.viewShift'],
+          ] as const).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setView(key)}
+              className={view === key ? 'btn-clear active' : 'btn-clear'}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+
+        <div className="export-actions">
+          <button onClick={() => handleExport('csv')} className="btn-clear" disabled={sorted.length === 0}>CSV</button>
+          <button onClick={() => handleExport('xlsx')} className="btn-clear" disabled={sorted.length === 0}>Excel</button>
+          <button onClick={() => handleExport('print')} className="btn-clear" disabled={sorted.length === 0}>
+            {t('toolbar.print')}
+          </button>
+        </div>
+
+        <button onClick={onKiosk} className="btn-clear" title={t('toolbar.kioskTitle')}>
+          {t('toolbar.kiosk')}
+        </button>
+
+        <LanguageSelect />
+
+        <button onClick={onLogout} className="btn-clear">{t('toolbar.logout')}</button>
+
+        <button onClick={() => setShowHealth((v) => !v)} className="btn-clear">
+          {t('toolbar.servers')}
+        </button>
+
+        {showRules && <NotifyRules />}
+        {showSeverity && <SeverityPanel bands={bands} onChange={changeBands} />}
+        {showHealth && <HealthPanel health={health} now={refreshedAt} onRetry={() => alarmFeed.refresh(true)} />}
+
+        {/* Ações em lote sobre as linhas selecionadas */}
+        <div className="bulk-actions">
+          <span className="status">{t('bulk.selected', { count: selected.size })}</span>
+          <input
+            className="filter-input"
+            placeholder={t('bulk.annotation')}
+            value={annotation}
+            onChange={(e) => setAnnotation(e.target.value)}
+          />
+          <button
+            className="btn-clear"
+            disabled={acting || selected.size === 0}
+            onClick={() => runAction([...selected], 'acknowledge')}
+          >
+            {t('bulk.acknowledge')}
+          </button>
+          <button
+            className="btn-clear"
+            disabled={acting || selected.size === 0}
+            onClick={() => runAction([...selected], 'discard')}
+          >
+            {t('bulk.discard')}
+          </button>
+        </div>
 
         {/* Controle de colunas */}
         <div className="col-controls">
-          {(
-            [
-              ['dateTime', 'Data - Hora'],
-              ['site', 'Site'],
-              ['point', 'Ponto'],
-              ['value', 'Valor'],
-              ['unit', 'Unidade'],
-              ['priority', 'Prioridade'],
-              ['reconhecido', 'Reconhecido'],
-              ['descartado', 'Descartado'],
-              ['comentario', 'Comentário'],
-            ] as [keyof VisibleCols, string][]
-          ).map(([key, label]) => (
+          {COLUMN_LABELS.map(([key, label]) => (
             <label key={key} className="col-toggle">
               <input
                 type="checkbox"
                 checked={visibleCols[key]}
                 onChange={() => toggleCol(key)}
               />
-              {label}
+              {t(label)}
             </label>
           ))}
         </div>
       </div>
 
-      <table className="alarms-table">
-        <thead>
-          <tr>
-            {visibleCols.dateTime && (
-              <th
-                onClick={() => onSort('dateTime')}
-                className="sortable"
-                aria-sort={sortKey === 'dateTime' ? (sortDir === 'asc' ? 'ascending' : 'descending') : 'none'}
-              >
-                Data - Hora <span className="arrow">{arrow('dateTime')}</span>
-              </th>
-            )}
-            {visibleCols.site && (
-              <th onClick={() => onSort('site')} className="sortable">
-                Site <span className="arrow">{arrow('site')}</span>
-              </th>
-            )}
-            {visibleCols.point && (
-              <th onClick={() => onSort('point')} className="sortable">
-                Ponto <span className="arrow">{arrow('point')}</span>
-              </th>
-            )}
-            {visibleCols.value && (
-              <th onClick={() => onSort('value')} className="sortable">
-                Valor <span className="arrow">{arrow('value')}</span>
-              </th>
-            )}
-            {visibleCols.unit && (
-              <th onClick={() => onSort('unit')} className="sortable">
-                Unidade <span className="arrow">{arrow('unit')}</span>
-              </th>
-            )}
-            {visibleCols.priority && (
-              <th onClick={() => onSort('priority')} className="sortable col-priority">
-                Prioridade <span className="arrow">{arrow('priority')}</span>
-              </th>
-            )}
-            {visibleCols.reconhecido && (
-              <th onClick={() => onSort('reconhecido')} className="sortable">
-                Reconhecido <span className="arrow">{arrow('reconhecido')}</span>
-              </th>
-            )}
-            {visibleCols.descartado && (
-              <th onClick={() => onSort('descartado')} className="sortable">
-                Descartado <span className="arrow">{arrow('descartado')}</span>
-              </th>
-            )}
-            {visibleCols.comentario && <th>Comentário</th>}
-          </tr>
-        </thead>
-        <tbody>
-          {sorted.map((r) => {
-            const hasComment = (comments[r.id] ?? '').trim().length > 0;
-            return (
-              <tr key={r.id} className={hasComment ? 'has-comment' : ''}>
-                {visibleCols.dateTime && <td>{r.dateTime}</td>}
-                {visibleCols.site && <td>{r.site}</td>}
-                {visibleCols.point && <td>{r.point}</td>}
-                {visibleCols.value && <td>{r.value}</td>}
-                {visibleCols.unit && <td>{r.unit}</td>}
-                {visibleCols.priority && <td className="col-priority">{r.priority}</td>}
-                {visibleCols.reconhecido && <td>{r.reconhecido}</td>}
-                {visibleCols.descartado && <td>{r.descartado}</td>}
-                {visibleCols.comentario && (
-                  <td className="comment-cell">
-                    <textarea
-                      className="comment-input"
-                      rows={1}
-                      value={comments[r.id] ?? ''}
-                      placeholder="Escreva um comentário…"
-                      onChange={(e) => handleCommentChange(r.id, e.target.value)}
-                      onBlur={() => handleCommentBlur(r.id)}
-                      onInput={(e) => {
-                        const el = e.currentTarget;
-                        el.style.height = 'auto';
-                        el.style.height = el.scrollHeight + 'px';
-                      }}
-                    />
-                  </td>
-                )}
-              </tr>
-            );
+      {staleServers.length > 0 && (
+        <div className="stale-banner">
+          {t('table.stale', {
+            servers: staleServers
+              .map((srv) => t('table.staleServer', { server: srv.label, time: formatTime(health[srv.name]?.lastSuccessAt ?? 0) }))
+              .join(' · '),
           })}
-          {!loading && !err && sorted.length === 0 && (
+        </div>
+      )}
+
+      {/* rótulos dos gráficos saem dos memos do painel: trocar o idioma remonta */}
+      {view === 'dashboard' && <Dashboard key={locale} rows={filtered} onFilter={applyFilterPatch} bands={bands} />}
+
+      {view === 'shift' && <ShiftLog threads={threads} describe={describeAlarm} />}
+
+      {view === 'table' && cleared.length > 0 && (
+        <details className="cleared-panel">
+          <summary>
+            {t('table.cleared', { count: cleared.length })}
+            <button className="btn-row" onClick={(e) => { e.preventDefault(); alarmFeed.clearCleared(); }}>
+              {t('common.clear')}
+            </button>
+          </summary>
+          <table className="cleared-table">
+            <thead>
+              <tr>
+                <th>{t('col.clearedAt')}</th>
+                <th>{t('col.dateTime')}</th>
+                <th>{t('col.site')}</th>
+                <th>{t('col.point')}</th>
+                <th>{t('col.value')}</th>
+                <th>{t('col.priority')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cleared.map(({ row, clearedAt }) => (
+                <tr key={`${row.id}-${clearedAt}`}>
+                  <td>{formatDateTime(clearedAt)}</td>
+                  <td>{formatDateTime(row.dateTimeISO)}</td>
+                  <td>{row.site}</td>
+                  <td>{row.point}</td>
+                  <td>{enumLabel(row.value)} {unitLabel(row.unit)}</td>
+                  <td>{row.priority}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+
+      {view === 'table' && (
+        <table className="alarms-table" ref={scrollRef}>
+          <thead>
             <tr>
-              <td colSpan={
-                Object.values(visibleCols).filter(Boolean).length || 1
-              } style={{ textAlign: 'center' }}>
-                Nenhum alarme encontrado.
-              </td>
+              <th className="col-select">
+                <input
+                  type="checkbox"
+                  title={t('table.selectAll')}
+                  checked={sorted.length > 0 && sorted.every((r) => selected.has(r.id))}
+                  onChange={(e) => setSelected(e.target.checked ? new Set(sorted.map((r) => r.id)) : new Set())}
+                />
+              </th>
+              {visibleCols.dateTime && (
+                <th
+                  onClick={() => onSort('dateTime')}
+                  className="sortable"
+                  aria-sort={sortKey === 'dateTime' ? (sortDir === 'asc' ? 'ascending' : 'descending') : 'none'}
+                >
+                  {t('col.dateTime')} <span className="arrow">{arrow('dateTime')}</span>
+                </th>
+              )}
+              {visibleCols.site && (
+                <th onClick={() => onSort('site')} className="sortable">
+                  {t('col.site')} <span className="arrow">{arrow('site')}</span>
+                </th>
+              )}
+              {visibleCols.point && (
+                <th onClick={() => onSort('point')} className="sortable">
+                  {t('col.point')} <span className="arrow">{arrow('point')}</span>
+                </th>
+              )}
+              {visibleCols.value && (
+                <th onClick={() => onSort('value')} className="sortable">
+                  {t('col.value')} <span className="arrow">{arrow('value')}</span>
+                </th>
+              )}
+              {visibleCols.unit && (
+                <th onClick={() => onSort('unit')} className="sortable">
+                  {t('col.unit')} <span className="arrow">{arrow('unit')}</span>
+                </th>
+              )}
+              {visibleCols.priority && (
+                <th onClick={() => onSort('priority')} className="sortable col-priority">
+                  {t('col.priority')} <span className="arrow">{arrow('priority')}</span>
+                </th>
+              )}
+              {visibleCols.severity && (
+                <th onClick={() => onSort('severity')} className="sortable col-severity">
+                  {t('col.severity')} <span className="arrow">{arrow('severity')}</span>
+                </th>
+              )}
+              {visibleCols.reconhecido && (
+                <th onClick={() => onSort('reconhecido')} className="sortable">
+                  {t('col.reconhecido')} <span className="arrow">{arrow('reconhecido')}</span>
+                </th>
+              )}
+              {visibleCols.descartado && (
+                <th onClick={() => onSort('descartado')} className="sortable">
+                  {t('col.descartado')} <span className="arrow">{arrow('descartado')}</span>
+                </th>
+              )}
+              {isHistory && (
+                <>
+                  <th>{t('col.firstSeen')}</th>
+                  <th>{t('col.lastSeen')}</th>
+                  <th>{t('col.clearedAt')}</th>
+                </>
+              )}
+              {visibleCols.comentario && <th>{t('col.comentario')}</th>}
+              {showActions && <th className="actions-cell">{t('col.acoes')}</th>}
             </tr>
-          )}
-        </tbody>
-      </table>
+          </thead>
+          <tbody>
+            {padTop > 0 && <tr className="spacer-row" style={{ height: padTop }}><td colSpan={colCount} /></tr>}
+            {entries.slice(start, end).map((entry, i) => renderEntry(entry, start + i))}
+            {padBottom > 0 && <tr className="spacer-row" style={{ height: padBottom }}><td colSpan={colCount} /></tr>}
+            {!loading && !feed.error && sorted.length === 0 && (
+              <tr>
+                <td colSpan={colCount} style={{ textAlign: 'center' }}>
+                  {t('table.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      )}
+
+      {detailRow && (
+        <AlarmDetail
+          key={detailRow.id}
+          row={detailRow}
+          earlier={detailEarlier}
+          thread={threads[detailRow.id] ?? []}
+          bands={bands}
+          unitSystem={unitSystem}
+          onAddNote={(text) => handleAddNote(detailRow.id, text)}
+          onSelect={setDetailId}
+          onClose={() => setDetailId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,59 @@
+// src/alarms/CommentThread.tsx
+import { useState } from 'react';
+import { formatDateTime, t } from '../i18n/i18n';
+import type { CommentEntry } from '../lib/comments';
+
+type Props = {
+  thread: CommentEntry[];
+  onAdd: (text: string) => Promise<void>;
+};
+
+// Histórico de notas de um alarme (só acrescenta) + campo p/ nova nota
+export default function CommentThread({ thread, onAdd }: Props) {
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  async function submit() {
+    if (!draft.trim()) return;
+    setSaving(true);
+    try {
+      await onAdd(draft);
+      setDraft('');
+    } catch {
+      // mantém o rascunho p/ tentar de novo; o erro já aparece na barra (commentsErr)
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="comment-thread">
+      {thread.length === 0 && <p className="comment-empty">{t('comments.empty')}</p>}
+      <ol className="comment-list">
+        {thread.map((c) => (
+          <li key={c.id}>
+            <div className="comment-meta">
+              <strong>{c.author}</strong> · {formatDateTime(c.createdAt)}
+            </div>
+            <div className="comment-text">{c.text}</div>
+          </li>
+        ))}
+      </ol>
+      <div className="comment-new">
+        <textarea
+          className="comment-input"
+          rows={2}
+          value={draft}
+          placeholder={t('comments.placeholder')}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) void submit();
+          }}
+        />
+        <button className="btn-clear" disabled={saving || !draft.trim()} onClick={() => void submit()}>
+          {saving ? t('comments.saving') : t('comments.add')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+// src/alarms/Dashboard.tsx
+import { useMemo, useState } from 'react';
+import { t } from '../i18n/i18n';
+import type { Row } from './types';
+import type { Filters } from './viewState';
+import type { SeverityBand } from './severity';
+import {
+  alarmsOverTime,
+  bySeverity,
+  byServer,
+  topN,
+  ackRatio,
+  type Bar,
+  type Granularity,
+} from './analytics';
+
+type Props = {
+  rows: Row[];                                  // linhas já filtradas
+  onFilter: (patch: Partial<Filters>) => void;  // aplica o filtro e volta p/ a tabela
+  bands: SeverityBand[];
+};
+
+const TOP_N = 10;
+
+// "texto exato" p/ os filtros de texto (que aceitam /regex/)
+const exact = (text: string) => `/^${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$/`;
+
+type ChartProps = {
+  title: string;
+  bars: Bar[];
+  vertical?: boolean;
+  onSelect: (bar: Bar) => void;
+};
+
+function BarChart({ title, bars, vertical, onSelect }: ChartProps) {
+  const max = Math.max(1, ...bars.map((b) => b.value));
+  return (
+    <section className="chart">
+      <h3>{title}</h3>
+      {bars.length === 0 && <p className="chart-empty">{t('dashboard.noData')}</p>}
+      <div className={vertical ? 'chart-bars vertical' : 'chart-bars'}>
+        {bars.map((b) => (
+          <button
+            key={b.key}
+            className="chart-bar"
+            title={t('dashboard.barTitle', { label: b.label, value: b.value })}
+            onClick={() => onSelect(b)}
+            disabled={b.value === 0 || b.disabled}
+          >
+            {!vertical && <span className="chart-label">{b.label}</span>}
+            <span className="chart-track">
+              <span
+                className="chart-fill"
+                style={vertical ? { height: `${(b.value / max) * 100}%` } : { width: `${(b.value / max) * 100}%` }}
+              />
+            </span>
+            <span className="chart-value">{b.value}</span>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+export default function Dashboard({ rows, onFilter, bands }: Props) {
+  const [granularity, setGranularity] = useState<Granularity>('hour');
+
+  const overTime = useMemo(() => alarmsOverTime(rows, granularity), [rows, granularity]);
+  const severities = useMemo(() => bySeverity(rows, bands), [rows, bands]);
+  const servers = useMemo(() => byServer(rows), [rows]);
+  const sites = useMemo(() => topN(rows, 'site', TOP_N), [rows]);
+  const points = useMemo(() => topN(rows, 'point', TOP_N), [rows]);
+  const ack = useMemo(() => ackRatio(rows), [rows]);
+
+  return (
+    <div className="dashboard">
+      <div className="dashboard-head">
+        <span className="count">{t('dashboard.count', { count: rows.length })}</span>
+        <select
+          className="filter-select"
+          value={granularity}
+          onChange={(e) => setGranularity(e.target.value as Granularity)}
+        >
+          <option value="hour">{t('dashboard.byHour')}</option>
+          <option value="day">{t('dashboard.byDay')}</option>
+        </select>
+      </div>
+
+      <div className="dashboard-grid">
+        <div className="chart-wide">
+          <BarChart
+            title={t(granularity === 'hour' ? 'dashboard.perHour' : 'dashboard.perDay')}
+            bars={overTime}
+            vertical
+            // o filtro de data é por dia: clicar numa hora filtra o dia inteiro
+            onSelect={(b) => onFilter({ dateFrom: b.key.slice(0, 10), dateTo: b.key.slice(0, 10) })}
+          />
+        </div>
+        <BarChart title={t('dashboard.bySeverity')} bars={severities} onSelect={(b) => onFilter({ severities: [b.key] })} />
+        <BarChart title={t('dashboard.byServer')} bars={servers} onSelect={(b) => onFilter({ servers: [b.key] })} />
+        <BarChart
+          title={t('dashboard.ack')}
+          bars={ack}
+          onSelect={(b) => onFilter({ ack: b.key as Filters['ack'] })}
+        />
+        <BarChart title={t('dashboard.topSites', { n: TOP_N })} bars={sites} onSelect={(b) => onFilter({ sites: [b.key] })} />
+        <BarChart title={t('dashboard.topPoints', { n: TOP_N })} bars={points} onSelect={(b) => onFilter({ point: exact(b.key) })} />
+      </div>
+    </div>
+  );
+}
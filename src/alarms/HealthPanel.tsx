@@ -0,0 +1,59 @@
+// src/alarms/HealthPanel.tsx
+import { formatTime, t } from '../i18n/i18n';
+import { enabledServers } from '../lib/servers';
+import { isStale, type HealthMap } from '../lib/health';
+
+type Props = {
+  health: HealthMap;
+  now: number;       // referência p/ "há quanto tempo" (fim do último ciclo)
+  onRetry: () => void;
+};
+
+const time = (ms?: number) => (ms === undefined ? '—' : formatTime(ms));
+
+export default function HealthPanel({ health, now, onRetry }: Props) {
+  return (
+    <div className="notify-panel">
+      <table className="notify-table health-table">
+        <thead>
+          <tr>
+            <th>{t('col.server')}</th>
+            <th>{t('health.state')}</th>
+            <th>{t('health.lastOk')}</th>
+            <th>{t('health.latency')}</th>
+            <th>{t('health.alarms')}</th>
+            <th>{t('health.lastError')}</th>
+            <th>{t('health.http')}</th>
+            <th>{t('health.failures')}</th>
+            <th>{t('health.nextRetry')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {enabledServers().map((srv) => {
+            const h = health[srv.name];
+            const failing = !!h && h.consecutiveFailures > 0;
+            const state = !h ? 'health.waiting' : failing ? 'health.failing' : isStale(h, now) ? 'health.stale' : 'health.ok';
+            return (
+              <tr key={srv.name} className={failing ? 'health-fail' : undefined}>
+                <td>{srv.label}</td>
+                <td>{t(state)}</td>
+                <td>{time(h?.lastSuccessAt)}</td>
+                <td>{h?.latencyMs === undefined ? '—' : `${h.latencyMs} ms`}</td>
+                <td>{h?.count ?? '—'}</td>
+                <td className="health-error" title={h?.lastError}>
+                  {h?.lastError ? `${time(h.lastErrorAt)} — ${h.lastError}` : '—'}
+                </td>
+                <td>{h?.lastStatus ?? '—'}</td>
+                <td>{h?.consecutiveFailures ?? 0}</td>
+                <td>{failing ? time(h.nextRetryAt) : '—'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <button className="btn-clear" onClick={onRetry}>
+        {t('health.retryAll')}
+      </button>
+    </div>
+  );
+}
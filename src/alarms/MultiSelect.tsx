@@ -0,0 +1,45 @@
+// src/alarms/MultiSelect.tsx
+import { t } from '../i18n/i18n';
+
+type Props = {
+  label: string;
+  options: string[];
+  selected: string[];
+  onChange: (next: string[]) => void;
+  format?: (option: string) => string; // texto exibido (o filtro guarda a opção crua)
+};
+
+// Lista suspensa com caixas de seleção; nada marcado = sem filtro
+export default function MultiSelect({ label, options, selected, onChange, format = (o) => o }: Props) {
+  const chosen = new Set(selected);
+
+  function toggle(option: string) {
+    onChange(chosen.has(option) ? selected.filter((s) => s !== option) : [...selected, option]);
+  }
+
+  return (
+    <details className="multi-select">
+      <summary className="filter-select">
+        {label}: {selected.length === 0 ? t('common.all') : selected.length === 1 ? format(selected[0]) : t('multi.some', { count: selected.length })}
+      </summary>
+      <div className="multi-select-list">
+        {selected.length > 0 && (
+          <button className="btn-row" onClick={() => onChange([])}>{t('multi.clear')}</button>
+        )}
+        {options.map((option) => (
+          <label key={option} className="multi-select-item">
+            <input type="checkbox" checked={chosen.has(option)} onChange={() => toggle(option)} />
+            {format(option) || t('common.empty')}
+          </label>
+        ))}
+        {/* itens selecionados que não estão mais nas linhas carregadas continuam visíveis */}
+        {selected.filter((s) => !options.includes(s)).map((option) => (
+          <label key={option} className="multi-select-item missing">
+            <input type="checkbox" checked onChange={() => toggle(option)} />
+            {format(option) || t('common.empty')}
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,123 @@
+// src/alarms/NotifyRules.tsx
+import { useState } from 'react';
+import { formatTime, t } from '../i18n/i18n';
+import {
+  loadRules,
+  saveRules,
+  newRule,
+  isRuleActive,
+  requestDesktopPermission,
+  type NotifyRule,
+} from '../lib/notify';
+
+const SNOOZE_OPTIONS: [number, string][] = [
+  [15, '15 min'],
+  [60, '1 h'],
+  [240, '4 h'],
+];
+
+export default function NotifyRules() {
+  const [rules, setRules] = useState<NotifyRule[]>(() => loadRules());
+
+  function update(next: NotifyRule[]) {
+    setRules(next);
+    saveRules(next);
+  }
+  // A permissão do navegador só é pedida aqui, no clique que liga uma regra com notificação
+  function patch(id: string, changes: Partial<NotifyRule>) {
+    const next = rules.map((r) => (r.id === id ? { ...r, ...changes } : r));
+    update(next);
+    const rule = next.find((r) => r.id === id);
+    if ((changes.desktop || changes.enabled) && rule?.desktop && rule.enabled) requestDesktopPermission();
+  }
+
+  return (
+    <div className="notify-panel">
+      <table className="notify-table">
+        <thead>
+          <tr>
+            <th>{t('notify.active')}</th>
+            <th>{t('notify.name')}</th>
+            <th>{t('notify.maxPriority')}</th>
+            <th>{t('col.site')}</th>
+            <th>{t('col.point')}</th>
+            <th>{t('notify.sound')}</th>
+            <th>{t('notify.desktop')}</th>
+            <th>{t('notify.snooze')}</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((r) => {
+            const snoozed = r.enabled && !isRuleActive(r);
+            return (
+              <tr key={r.id}>
+                <td>
+                  <input type="checkbox" checked={r.enabled} onChange={(e) => patch(r.id, { enabled: e.target.checked })} />
+                </td>
+                <td>
+                  <input className="filter-input" value={r.name} onChange={(e) => patch(r.id, { name: e.target.value })} />
+                </td>
+                <td>
+                  <input
+                    className="filter-input small"
+                    type="number"
+                    value={r.maxPriority}
+                    onChange={(e) => patch(r.id, { maxPriority: Number(e.target.value) })}
+                  />
+                </td>
+                <td>
+                  <input
+                    className="filter-input"
+                    placeholder={t('notify.anyPattern')}
+                    value={r.sitePattern}
+                    onChange={(e) => patch(r.id, { sitePattern: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    className="filter-input"
+                    placeholder={t('notify.anyPattern')}
+                    value={r.pointPattern}
+                    onChange={(e) => patch(r.id, { pointPattern: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input type="checkbox" checked={r.sound} onChange={(e) => patch(r.id, { sound: e.target.checked })} />
+                </td>
+                <td>
+                  <input type="checkbox" checked={r.desktop} onChange={(e) => patch(r.id, { desktop: e.target.checked })} />
+                </td>
+                <td>
+                  {snoozed ? (
+                    <button className="btn-row" onClick={() => patch(r.id, { snoozedUntil: undefined })}>
+                      {t('notify.snoozedUntil', { time: formatTime(r.snoozedUntil!, false) })}
+                    </button>
+                  ) : (
+                    SNOOZE_OPTIONS.map(([min, label]) => (
+                      <button
+                        key={min}
+                        className="btn-row"
+                        onClick={() => patch(r.id, { snoozedUntil: Date.now() + min * 60_000 })}
+                      >
+                        {label}
+                      </button>
+                    ))
+                  )}
+                </td>
+                <td>
+                  <button className="btn-row" onClick={() => update(rules.filter((x) => x.id !== r.id))}>
+                    {t('common.remove')}
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <button className="btn-clear" onClick={() => { update([...rules, newRule()]); requestDesktopPermission(); }}>
+        {t('notify.addRule')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+// src/alarms/RefreshButton.tsx
+import { useEffect, useState } from 'react';
+import { t } from '../i18n/i18n';
+
+type Props = {
+  loading: boolean;
+  autoRefresh: boolean;
+  nextAt: number;     // epoch ms do próximo auto-refresh
+  periodMs: number;
+  live?: boolean;     // fluxo do relay ativo: nada a atualizar
+  onClick: () => void;
+};
+
+// Contagem regressiva isolada: o tique de 1s re-renderiza só o botão, não a tabela
+export default function RefreshButton({ loading, autoRefresh, nextAt, periodMs, live, onClick }: Props) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!autoRefresh || live) return;
+    const t = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(t);
+  }, [autoRefresh, live]);
+
+  // "now" pode estar até 1s atrasado logo após um refresh: limita ao período
+  const secondsLeft = Math.min(periodMs, Math.max(0, nextAt - now)) / 1000;
+  const label = live
+    ? t('refresh.live')
+    : loading
+    ? t('refresh.loading')
+    : autoRefresh
+    ? t('refresh.countdown', { seconds: Math.ceil(secondsLeft) })
+    : t('refresh.button');
+
+  return (
+    <button onClick={onClick} disabled={loading || live} className="btn-refresh mono">
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,128 @@
+// src/alarms/SavedViews.tsx
+import { useRef, useState } from 'react';
+import { t } from '../i18n/i18n';
+import type { ViewState } from './viewState';
+import {
+  loadSavedViews,
+  saveSavedViews,
+  newViewId,
+  exportViewsJson,
+  parseViewsJson,
+  type SavedViewsStore,
+} from './savedViews';
+
+type Props = {
+  current: ViewState;
+  onApply: (state: ViewState) => void;
+  onError: (message: string) => void;
+};
+
+export default function SavedViews({ current, onApply, onError }: Props) {
+  const [store, setStore] = useState<SavedViewsStore>(() => loadSavedViews());
+  const [selectedId, setSelectedId] = useState(() => store.defaultId ?? '');
+  const fileRef = useRef<HTMLInputElement>(null);
+  const selected = store.views.find((v) => v.id === selectedId);
+
+  function update(next: SavedViewsStore) {
+    setStore(next);
+    saveSavedViews(next);
+  }
+
+  function select(id: string) {
+    setSelectedId(id);
+    const view = store.views.find((v) => v.id === id);
+    if (view) onApply(view.state);
+  }
+
+  function saveCurrent() {
+    const name = window.prompt(t('views.namePrompt'), selected?.name ?? '')?.trim();
+    if (!name) return;
+    // mesmo nome = sobrescreve a visão existente
+    const existing = store.views.find((v) => v.name === name);
+    const id = existing?.id ?? newViewId();
+    const view = { id, name, state: current };
+    update({
+      ...store,
+      views: existing ? store.views.map((v) => (v.id === id ? view : v)) : [...store.views, view],
+    });
+    setSelectedId(id);
+  }
+
+  function rename() {
+    if (!selected) return;
+    const name = window.prompt(t('views.renamePrompt'), selected.name)?.trim();
+    if (!name) return;
+    update({ ...store, views: store.views.map((v) => (v.id === selected.id ? { ...v, name } : v)) });
+  }
+
+  function remove() {
+    if (!selected || !window.confirm(t('views.deleteConfirm', { name: selected.name }))) return;
+    update({
+      views: store.views.filter((v) => v.id !== selected.id),
+      defaultId: store.defaultId === selected.id ? undefined : store.defaultId,
+    });
+    setSelectedId('');
+  }
+
+  function toggleDefault() {
+    if (!selected) return;
+    update({ ...store, defaultId: store.defaultId === selected.id ? undefined : selected.id });
+  }
+
+  function exportJson() {
+    const blob = new Blob([exportViewsJson(store.views)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = t('views.fileName');
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+  }
+
+  async function importJson(file: File) {
+    try {
+      const imported = parseViewsJson(await file.text());
+      // nomes repetidos são substituídos pela versão importada
+      const names = new Set(imported.map((v) => v.name));
+      update({ ...store, views: [...store.views.filter((v) => !names.has(v.name)), ...imported] });
+    } catch (e) {
+      onError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  return (
+    <div className="saved-views">
+      <select
+        className="filter-select"
+        value={selectedId}
+        onChange={(e) => select(e.target.value)}
+        title={t('views.title')}
+      >
+        <option value="">{t('views.placeholder')}</option>
+        {store.views.map((v) => (
+          <option key={v.id} value={v.id}>
+            {v.id === store.defaultId ? '★ ' : ''}{v.name}
+          </option>
+        ))}
+      </select>
+      <button className="btn-clear" onClick={saveCurrent}>{t('views.save')}</button>
+      <button className="btn-clear" onClick={rename} disabled={!selected}>{t('views.rename')}</button>
+      <button className="btn-clear" onClick={remove} disabled={!selected}>{t('views.delete')}</button>
+      <button className="btn-clear" onClick={toggleDefault} disabled={!selected}>
+        {t(selected && store.defaultId === selected.id ? 'views.unsetDefault' : 'views.setDefault')}
+      </button>
+      <button className="btn-clear" onClick={exportJson} disabled={store.views.length === 0}>{t('views.export')}</button>
+      <button className="btn-clear" onClick={() => fileRef.current?.click()}>{t('views.import')}</button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void importJson(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
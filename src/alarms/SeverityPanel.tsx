@@ -0,0 +1,60 @@
+// src/alarms/SeverityPanel.tsx
+import type { CSSProperties } from 'react';
+import { t } from '../i18n/i18n';
+import { DEFAULT_SEVERITY_BANDS, normalizeBands, severityLabel, type SeverityBand } from './severity';
+
+type Props = {
+  bands: SeverityBand[];
+  onChange: (bands: SeverityBand[]) => void;
+};
+
+// Limite "até" grava ao sair do campo (digitando, "1" de "150" seria ajustado na hora)
+export default function SeverityPanel({ bands, onChange }: Props) {
+  function patch(i: number, changes: Partial<SeverityBand>) {
+    onChange(normalizeBands(bands.map((b, j) => (j === i ? { ...b, ...changes } : b))));
+  }
+
+  return (
+    <div className="notify-panel">
+      <table className="notify-table">
+        <thead>
+          <tr>
+            <th>{t('severity.color')}</th>
+            <th>{t('col.severity')}</th>
+            <th>{t('severity.from')}</th>
+            <th>{t('severity.to')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {bands.map((b, i) => (
+            <tr key={b.id}>
+              <td>
+                <input type="color" value={b.color} onChange={(e) => patch(i, { color: e.target.value })} />
+              </td>
+              <td>
+                <span className="sev-badge" style={{ '--sev': b.color } as CSSProperties}>{severityLabel(b.id)}</span>
+              </td>
+              <td className="mono">{b.min}</td>
+              <td>
+                <input
+                  key={`${b.id}-${b.max}`}
+                  className="filter-input small"
+                  type="number"
+                  min={b.min}
+                  max={255}
+                  defaultValue={b.max}
+                  disabled={i === bands.length - 1}
+                  onBlur={(e) => patch(i, { max: Number(e.target.value) })}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button className="btn-clear" onClick={() => onChange(DEFAULT_SEVERITY_BANDS)}>
+        {t('severity.reset')}
+      </button>
+    </div>
+  );
+}
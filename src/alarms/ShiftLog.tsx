@@ -0,0 +1,77 @@
+// src/alarms/ShiftLog.tsx
+import { useMemo, useState } from 'react';
+import { formatDateTime, t } from '../i18n/i18n';
+import type { CommentThreads } from '../lib/comments';
+
+type Props = {
+  threads: CommentThreads;
+  describe: (alarmId: string) => string; // "Ponto — Site" das linhas carregadas
+};
+
+const SHIFT_HOURS = 12;
+
+// "YYYY-MM-DDTHH:mm" no horário local, formato do <input type="datetime-local">
+function toLocalInput(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+// Passagem de turno: todas as notas de todos os alarmes numa janela de tempo
+export default function ShiftLog({ threads, describe }: Props) {
+  const [from, setFrom] = useState(() => toLocalInput(new Date(Date.now() - SHIFT_HOURS * 3600_000)));
+  const [to, setTo] = useState('');
+
+  const entries = useMemo(() => {
+    const start = from ? new Date(from).getTime() : -Infinity;
+    const end = to ? new Date(to).getTime() : Infinity;
+    return Object.entries(threads)
+      .flatMap(([alarmId, list]) => list.map((c) => ({ alarmId, ...c })))
+      .filter((c) => {
+        const ts = new Date(c.createdAt).getTime();
+        return ts >= start && ts <= end;
+      })
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }, [threads, from, to]);
+
+  return (
+    <div className="shift-log">
+      <div className="shift-log-filters">
+        <label>
+          {t('shift.from')}{' '}
+          <input className="filter-input small" type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </label>
+        <label>
+          {t('shift.to')}{' '}
+          <input className="filter-input small" type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} />
+        </label>
+        <span className="count">{t('shift.count', { count: entries.length })}</span>
+      </div>
+
+      <table className="alarms-table shift-log-table">
+        <thead>
+          <tr>
+            <th>{t('col.dateTime')}</th>
+            <th>{t('col.author')}</th>
+            <th>{t('col.alarm')}</th>
+            <th>{t('col.note')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((c) => (
+            <tr key={`${c.alarmId}-${c.id}`}>
+              <td>{formatDateTime(c.createdAt)}</td>
+              <td>{c.author}</td>
+              <td>{describe(c.alarmId)}</td>
+              <td className="comment-text">{c.text}</td>
+            </tr>
+          ))}
+          {entries.length === 0 && (
+            <tr>
+              <td colSpan={4} style={{ textAlign: 'center' }}>{t('shift.empty')}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
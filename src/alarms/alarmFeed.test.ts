@@ -0,0 +1,167 @@
+// src/alarms/alarmFeed.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AlarmRelay } from '../../server/alarmRelay';
+import { generateAlarms, startMockMetasys } from '../../server/mockMetasys';
+import { logout, signIn } from '../lib/auth';
+import type { StreamConnector, StreamHandlers } from '../lib/relay';
+import type { AdxServer } from '../lib/servers';
+import { AlarmFeed, STREAM_RETRY_MS } from './alarmFeed';
+import type { Row } from './types';
+
+type Mock = Awaited<ReturnType<typeof startMockMetasys>>;
+const NOW = Date.UTC(2026, 2, 10);
+
+describe('AlarmFeed contra dois simuladores', () => {
+  let mocks: Mock[];
+  let servers: AdxServer[];
+  let notify: ReturnType<typeof vi.fn<(added: Row[]) => void>>;
+  let feed: AlarmFeed;
+
+  beforeEach(async () => {
+    mocks = [
+      await startMockMetasys({ alarms: generateAlarms(3, 'a', NOW) }),
+      await startMockMetasys({ alarms: generateAlarms(2, 'b', NOW) }),
+    ];
+    servers = mocks.map((m, i) => ({ name: `srv${i + 1}`, label: `Srv ${i + 1}`, apiBase: m.apiBase, enabled: true }));
+    for (const s of servers) await signIn(s, { username: 'op', password: 'x' });
+    notify = vi.fn<(added: Row[]) => void>();
+    feed = new AlarmFeed({ servers: () => servers, notify });
+  });
+  afterEach(async () => {
+    logout();
+    await Promise.all(mocks.map((m) => m.close()));
+  });
+
+  it('junta os servidores com ID composto e registra a saúde', async () => {
+    await feed.refresh();
+    const s = feed.getState();
+    expect(s.rows.map((r) => r.id).sort()).toEqual(['srv1-a-1', 'srv1-a-2', 'srv1-a-3', 'srv2-b-1', 'srv2-b-2']);
+    expect(s.connectionNote).toBe('Conectado (Srv 1: 3 + Srv 2: 2)');
+    expect(s.health.srv1).toMatchObject({ count: 3, consecutiveFailures: 0 });
+    expect(notify).not.toHaveBeenCalled(); // 1ª leitura não é "novo"
+  });
+
+  it('servidor com falha mantém as últimas linhas e entra em backoff', async () => {
+    await feed.refresh();
+    mocks[1].mock.setFailure({ mode: 'alarms', status: 502 });
+    await feed.refresh();
+    const s = feed.getState();
+    expect(s.rows.filter((r) => r.id.startsWith('srv2-'))).toHaveLength(2);
+    expect(s.health.srv2).toMatchObject({ consecutiveFailures: 1, lastStatus: 502 });
+    expect(s.connectionNote).toMatch(/^Parcial — ok: Srv 1 \/ falha: Srv 2/);
+    expect(s.cleared).toEqual([]); // falha de conexão não é normalização
+
+    await feed.refresh(); // ainda em backoff: nem consulta
+    expect(feed.getState().connectionNote).toMatch(/aguardando nova tentativa: Srv 2/);
+  });
+
+  it('marca novos e normalizados entre leituras', async () => {
+    await feed.refresh();
+    mocks[0].mock.alarms.splice(0, 1); // a-1 normalizou
+    mocks[1].mock.alarms.push(...generateAlarms(3, 'b', NOW).slice(2)); // b-3 é novo
+    await feed.refresh();
+    const s = feed.getState();
+    expect([...s.newIds]).toEqual(['srv2-b-3']);
+    expect(s.cleared.map((c) => c.row.id)).toEqual(['srv1-a-1']);
+    expect(notify).toHaveBeenCalledWith([expect.objectContaining({ id: 'srv2-b-3' })]);
+
+    feed.markSeen('srv2-b-3');
+    expect(feed.getState().newIds.size).toBe(0);
+  });
+
+  it('ação desfaz só as linhas que falharam', async () => {
+    await feed.refresh();
+    mocks[1].mock.setFailure({ mode: 'drop' });
+    const res = await feed.act(['srv1-a-2', 'srv2-b-2'], 'acknowledge');
+    expect(res).toMatchObject({ failed: ['srv2-b-2'] });
+    const byId = new Map(feed.getState().rows.map((r) => [r.id, r]));
+    expect(byId.get('srv1-a-2')?.reconhecido).toBe(true);
+    expect(byId.get('srv2-b-2')?.reconhecido).toBe(false);
+    expect(mocks[0].mock.alarms.find((a) => a.id === 'a-2')?.isAcknowledged).toBe(true);
+  });
+
+  it('arquivo local só normaliza alarmes de leituras completas e sem filtro', async () => {
+    const archive = vi.fn<(fresh: Row[], inScope: (id: string) => boolean) => Promise<void>>(async () => {});
+    servers[1] = { ...servers[1], maxAlarms: 1 }; // Srv 2 tem 2: lista truncada
+    feed = new AlarmFeed({ servers: () => servers, notify, archive });
+    await feed.refresh();
+    let inScope = archive.mock.calls[0][1];
+    expect(inScope('srv1-a-1')).toBe(true);
+    expect(inScope('srv2-b-1')).toBe(false);
+
+    feed.setQuery({ isAcknowledged: false });
+    await feed.refresh();
+    inScope = archive.mock.calls[1][1];
+    expect(inScope('srv1-a-1')).toBe(false);
+  });
+
+  it('inscrição liga o polling e avisa os inscritos', async () => {
+    const listener = vi.fn();
+    const unsubscribe = feed.subscribe(listener);
+    await vi.waitFor(() => expect(feed.getState().rows).toHaveLength(5));
+    expect(listener).toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('ao vivo: aplica os eventos do relay e volta ao polling quando o fluxo cai', async () => {
+    const relay = new AlarmRelay({ servers, credentials: { username: 'relay', password: 'x' }, periodMs: 60_000 });
+    let handlers: StreamHandlers | undefined;
+    let off = () => {};
+    const stream: StreamConnector = (h) => {
+      handlers = h;
+      off = relay.subscribe(h.event);
+      return () => off();
+    };
+    feed = new AlarmFeed({ servers: () => servers, notify, stream });
+    const unsubscribe = feed.subscribe(() => {});
+
+    await vi.waitFor(() => expect(feed.getState().live).toBe(true));
+    expect(feed.getState().rows).toHaveLength(5);
+    expect(feed.getState().connectionNote).toBe('Ao vivo (Srv 1: 3 + Srv 2: 2)');
+    expect(mocks[0].mock.stats.alarmRequests).toBe(1); // só o relay consultou
+
+    mocks[0].mock.alarms.splice(0, 1);
+    mocks[1].mock.alarms.push(...generateAlarms(3, 'b', NOW).slice(2));
+    await relay.poll();
+    let s = feed.getState();
+    expect([...s.newIds]).toEqual(['srv2-b-3']);
+    expect(s.cleared.map((c) => c.row.id)).toEqual(['srv1-a-1']);
+    expect(notify).toHaveBeenCalledWith([expect.objectContaining({ id: 'srv2-b-3' })]);
+
+    feed.setQuery({ isAcknowledged: false }); // b-1 está reconhecido
+    expect(feed.getState().rows.map((r) => r.id).sort()).toEqual(['srv1-a-2', 'srv1-a-3', 'srv2-b-2', 'srv2-b-3']);
+
+    off();
+    handlers?.drop('Fluxo ao vivo indisponível');
+    s = feed.getState();
+    expect(s.live).toBe(false);
+    await vi.waitFor(() => expect(feed.getState().connectionNote).toMatch(/^Conectado/));
+    expect(mocks[0].mock.stats.alarmRequests).toBe(3); // relay x2 + polling direto
+    expect(feed.getState().newIds).toEqual(new Set(['srv2-b-3']));
+    unsubscribe();
+  });
+});
+
+describe('AlarmFeed com o relay fora', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('nova tentativa do fluxo que falha não soma leituras ao polling', async () => {
+    vi.useFakeTimers();
+    const servers = vi.fn<() => AdxServer[]>(() => []); // chamado uma vez por leitura
+    let connects = 0;
+    const stream: StreamConnector = (h) => {
+      connects++;
+      const timer = setTimeout(() => h.drop('503'), 0); // relay sem credenciais
+      return () => clearTimeout(timer);
+    };
+    const feed = new AlarmFeed({ servers, periodMs: 60_000, stream });
+    const unsubscribe = feed.subscribe(() => {});
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(servers).toHaveBeenCalledTimes(1); // fluxo nunca abriu: polling já
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(connects).toBeGreaterThanOrEqual((10 * 60_000) / STREAM_RETRY_MS);
+    expect(servers).toHaveBeenCalledTimes(11); // só o polling, nenhuma leitura extra por tentativa
+    unsubscribe();
+  });
+});
@@ -0,0 +1,508 @@
+// src/alarms/alarmFeed.ts
+import { t } from '../i18n/i18n';
+import { alarmAction, ApiError, getAlarms, type AlarmAction, type AlarmDTO } from '../lib/api';
+import { withAuth } from '../lib/auth';
+import { diffSnapshot } from '../lib/diff';
+import { isDue, recordFailure, recordSuccess, type HealthMap } from '../lib/health';
+import { notifyNewAlarms } from '../lib/notify';
+import { eventSourceStream, type RelayEvent, type RelayStatus, type StreamConnector } from '../lib/relay';
+import { composeRowId, enabledServers, parseRowId, type AdxServer } from '../lib/servers';
+import { loadRetentionDays, pruneHistory, recordSnapshot } from './history';
+import { mapAlarm } from './mapAlarm';
+import type { Row } from './types';
+
+/* =========================================
+   Feed de alarmes ao vivo — uma instância compartilhada pelas visões
+   Busca os servidores habilitados em paralelo (com backoff por servidor),
+   mapeia p/ Row, mantém as linhas de quem falhou, calcula novos e
+   normalizados e repete a cada periodMs enquanto houver alguém inscrito.
+   Com "stream" (relay local), aplica os eventos ao vivo no lugar do polling
+   e só volta a consultar os ADX direto enquanto o fluxo estiver fora.
+   Consumir pelos hooks de useAlarmFeed.ts.
+   ========================================= */
+export type ServerQuery = { isAcknowledged?: boolean; isDiscarded?: boolean };
+export type ClearedRow = { row: Row; clearedAt: string };
+
+export type FeedState = {
+  rows: Row[];
+  loading: boolean;
+  error: string;
+  connectionNote: string;   // contagem por origem / falhas
+  truncatedNote: string;    // servidores que passaram do teto de alarmes
+  health: HealthMap;
+  newIds: Set<string>;      // novos desde a atualização anterior, até serem vistos
+  cleared: ClearedRow[];    // normalizados recentemente (mais novo primeiro)
+  refreshedAt: number;      // fim da última atualização (epoch ms)
+  autoRefresh: boolean;
+  live: boolean;            // recebendo o fluxo do relay (sem polling)
+  archivedAt: number;       // fim da última gravação no arquivo local
+  archiveError: string;
+};
+
+export type FeedOptions = {
+  servers?: () => AdxServer[];                    // padrão: enabledServers()
+  periodMs?: number;
+  notify?: (added: Row[]) => void;                // alarmes novos (não dispara na 1ª leitura)
+  archive?: (fresh: Row[], inScope: (id: string) => boolean) => Promise<void>;
+  stream?: StreamConnector;                       // sem ele: só polling
+};
+
+export type ActionResult = { targets: string[]; failed: string[]; messages: string[] };
+
+const CLEARED_MAX = 100;
+// Fluxo caído: nova tentativa depois disso (o polling cobre o intervalo)
+export const STREAM_RETRY_MS = 30_000;
+
+// Última leitura: linhas, servidores que responderam e filtro enviado ao servidor
+type Snapshot = { rows: Row[]; servers: Set<string>; query: string };
+
+const message = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// Estado afetado por cada ação do operador
+function withActionState(r: Row, action: AlarmAction, v: boolean): Row {
+  return action === 'acknowledge' ? { ...r, reconhecido: v } : { ...r, descartado: v };
+}
+function actionState(r: Row, action: AlarmAction): boolean {
+  return action === 'acknowledge' ? r.reconhecido : r.descartado;
+}
+
+// O relay manda tudo; o filtro do servidor (setQuery) é aplicado aqui
+function matchesQuery(a: AlarmDTO, q: ServerQuery): boolean {
+  return (q.isAcknowledged === undefined || a.isAcknowledged === q.isAcknowledged)
+    && (q.isDiscarded === undefined || a.isDiscarded === q.isDiscarded);
+}
+
+export class AlarmFeed {
+  readonly periodMs: number;
+  private readonly servers: () => AdxServer[];
+  private readonly options: FeedOptions;
+  private state: FeedState;
+  private readonly listeners = new Set<() => void>();
+  private snapshot: Snapshot | null = null;
+  private query: ServerQuery = {};
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private inFlight: Promise<void> | null = null;
+  // Alarmes do fluxo por servidor; null = fora do modo ao vivo
+  private streamAlarms: Map<string, Map<string, AlarmDTO>> | null = null;
+  private streamStatus: Record<string, RelayStatus> = {};
+  private closeStream: (() => void) | undefined;
+  private streamRetry: ReturnType<typeof setTimeout> | undefined;
+  private polling = false; // fluxo fora e polling direto já ligado
+
+  constructor(options: FeedOptions = {}) {
+    this.options = options;
+    this.servers = options.servers ?? enabledServers;
+    this.periodMs = options.periodMs ?? 60_000;
+    this.state = {
+      rows: [],
+      loading: false,
+      error: '',
+      connectionNote: '',
+      truncatedNote: '',
+      health: {},
+      newIds: new Set(),
+      cleared: [],
+      refreshedAt: Date.now(),
+      autoRefresh: true,
+      live: false,
+      archivedAt: 0,
+      archiveError: '',
+    };
+  }
+
+  // ----- Assinatura (formato do useSyncExternalStore) -----
+  // O primeiro inscrito liga o polling; o último a sair desliga
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  };
+
+  getState = (): FeedState => this.state;
+
+  private setState(patch: Partial<FeedState>) {
+    this.state = { ...this.state, ...patch };
+    for (const l of this.listeners) l();
+  }
+
+  // A 1ª leitura vai p/ o fim da fila: dá tempo às visões de ajustarem o filtro (setQuery)
+  private start() {
+    clearTimeout(this.timer);
+    if (this.options.stream) {
+      this.setState({ loading: true });
+      this.openStream();
+      return;
+    }
+    this.timer = setTimeout(() => void this.refresh(), 0);
+  }
+
+  private stop() {
+    clearTimeout(this.timer);
+    clearTimeout(this.streamRetry);
+    this.timer = undefined;
+    this.closeStream?.();
+    this.closeStream = undefined;
+    this.streamAlarms = null;
+    this.polling = false;
+    this.state = { ...this.state, live: false };
+  }
+
+  private schedule() {
+    clearTimeout(this.timer);
+    if (this.listeners.size === 0 || !this.state.autoRefresh || this.streamAlarms) return;
+    const delay = Math.max(0, this.state.refreshedAt + this.periodMs - Date.now());
+    this.timer = setTimeout(() => void this.refresh(), delay);
+  }
+
+  // ----- Comandos -----
+  // Filtro enviado ao servidor; vale a partir da próxima atualização
+  // true = filtro mudou (as linhas atuais foram lidas com outro)
+  setQuery(query: ServerQuery): boolean {
+    const changed = query.isAcknowledged !== this.query.isAcknowledged || query.isDiscarded !== this.query.isDiscarded;
+    this.query = query;
+    if (this.streamAlarms) this.setState(this.streamRows());
+    return changed;
+  }
+
+  setAutoRefresh(on: boolean) {
+    this.setState({ autoRefresh: on });
+    this.schedule();
+  }
+
+  markSeen(id: string) {
+    if (!this.state.newIds.has(id)) return;
+    const next = new Set(this.state.newIds);
+    next.delete(id);
+    this.setState({ newIds: next });
+  }
+
+  clearNew() {
+    this.setState({ newIds: new Set() });
+  }
+
+  clearCleared() {
+    this.setState({ cleared: [] });
+  }
+
+  private serverOf(id: string): AdxServer | undefined {
+    return parseRowId(id, this.servers())?.server;
+  }
+
+  // Atualizações simultâneas (duas visões, botão + timer) viram uma só.
+  // "force" ignora o backoff e consulta todos os servidores. Ao vivo não há o que buscar
+  refresh(force = false): Promise<void> {
+    if (this.streamAlarms) return Promise.resolve();
+    this.inFlight ??= this.load(force).finally(() => {
+      this.inFlight = null;
+      this.schedule();
+    });
+    return this.inFlight;
+  }
+
+  private async load(force: boolean) {
+    this.setState({ loading: true, error: '', connectionNote: '', truncatedNote: '' });
+    const patch: Partial<FeedState> = {};
+    try {
+      const opts = this.query;
+
+      // Servidores em paralelo (menos os em backoff) — resultados na ordem do registro
+      const servers = this.servers();
+      const health = this.state.health;
+      const due = servers.filter((srv) => force || isDue(health[srv.name], Date.now()));
+      const waiting = servers.filter((srv) => !due.includes(srv)).map((srv) => srv.label);
+      const results = await Promise.allSettled(due.map(async (srv) => {
+        const started = performance.now();
+        const res = await withAuth(srv, (token) => getAlarms(srv.apiBase, token, {
+          ...opts,
+          pageSize: srv.pageSize,
+          maxItems: srv.maxAlarms,
+        }));
+        return { ...res, latencyMs: Math.round(performance.now() - started) };
+      }));
+      if (this.streamAlarms) return; // o fluxo voltou durante a leitura: ele prevalece
+
+      const itemsAll: { server: AdxServer; item: AlarmDTO }[] = [];
+      const okServers = new Set<string>();
+      const successes: string[] = [];
+      const failures: string[] = [];
+      const counts: string[] = [];
+      const truncated: string[] = [];
+      const complete = new Set<string>(); // ok e sem passar do teto: a lista veio inteira
+      const nextHealth: HealthMap = { ...health };
+
+      results.forEach((res, i) => {
+        const srv = due[i];
+        if (res.status === 'fulfilled') {
+          const { items, total, latencyMs } = res.value;
+          itemsAll.push(...items.map((item) => ({ server: srv, item })));
+          okServers.add(srv.name);
+          successes.push(srv.label);
+          counts.push(`${srv.label}: ${items.length}`);
+          if (res.value.truncated) truncated.push(t('feed.truncatedItem', { server: srv.label, count: items.length, total }));
+          else complete.add(srv.name);
+          nextHealth[srv.name] = recordSuccess(nextHealth[srv.name], latencyMs, items.length, Date.now());
+        } else {
+          failures.push(srv.label);
+          nextHealth[srv.name] = recordFailure(nextHealth[srv.name], res.reason, Date.now());
+        }
+      });
+      patch.health = nextHealth;
+
+      const waitingNote = waiting.length ? t('feed.waiting', { servers: waiting.join(', ') }) : '';
+      if (servers.length === 0) {
+        patch.connectionNote = t('feed.noServers');
+      } else if (failures.length === 0 && waiting.length === 0) {
+        patch.connectionNote = t('feed.connected', { counts: counts.join(' + ') });
+      } else if (successes.length > 0) {
+        patch.connectionNote = t('feed.partial', { ok: successes.join(', '), failed: failures.join(', ') || '—', waiting: waitingNote });
+      } else {
+        patch.connectionNote = t('feed.allFailed', { waiting: waitingNote });
+      }
+      patch.truncatedNote = truncated.length ? t('feed.truncated', { list: truncated.join(', ') }) : '';
+
+      const fresh = itemsAll.map(({ server, item }) => mapAlarm(server, item));
+
+      // Servidor que falhou (ou está em backoff) mantém as últimas linhas, marcadas como desatualizadas
+      const query = JSON.stringify(opts);
+      const prev = this.snapshot;
+      const enabledNames = new Set(servers.map((srv) => srv.name));
+      const serverName = (id: string) => this.serverOf(id)?.name;
+      const carried = prev && prev.query === query
+        ? prev.rows.filter((r) => {
+          const name = serverName(r.id);
+          return !!name && enabledNames.has(name) && !okServers.has(name);
+        })
+        : [];
+      const rows = [...fresh, ...carried];
+      patch.rows = rows;
+
+      // Compara com a leitura anterior (mesmo filtro no servidor; só servidores ok nas duas)
+      if (prev && prev.query === query) {
+        const inScope = (id: string) => {
+          const name = serverName(id);
+          return !!name && okServers.has(name) && prev.servers.has(name);
+        };
+        const { added, removed } = diffSnapshot(prev.rows, fresh, inScope);
+        Object.assign(patch, this.changes(added, removed, rows));
+      } else {
+        patch.newIds = new Set();
+      }
+      this.snapshot = { rows, servers: okServers, query };
+
+      // Arquivo local à parte: falha aqui não derruba a tabela.
+      // Alarme fora de uma lista filtrada (reconhecido/descartado) ou truncada pode seguir ativo: não normaliza
+      const unfiltered = opts.isAcknowledged === undefined && opts.isDiscarded === undefined;
+      this.options.archive?.(fresh, (id) => unfiltered && complete.has(serverName(id) ?? ''))
+        .then(() => this.setState({ archivedAt: Date.now(), archiveError: '' }))
+        .catch((e) => this.setState({ archiveError: message(e) }));
+    } catch (e) {
+      patch.error = message(e) || t('feed.unknownError');
+    } finally {
+      this.setState({ ...patch, loading: false, refreshedAt: Date.now() });
+    }
+  }
+
+  // Novos e normalizados -> notificação, newIds (só os ainda presentes) e cleared
+  private changes(added: Row[], removed: Row[], rows: Row[]): Pick<FeedState, 'newIds' | 'cleared'> {
+    if (added.length > 0) this.options.notify?.(added);
+    const nowISO = new Date().toISOString();
+    const addedIds = new Set(added.map((r) => r.id));
+    const ids = new Set(rows.map((r) => r.id));
+    return {
+      newIds: new Set([...this.state.newIds].filter((id) => ids.has(id)).concat([...addedIds])),
+      cleared: [
+        ...removed.map((row) => ({ row, clearedAt: nowISO })),
+        ...this.state.cleared.filter((c) => !addedIds.has(c.row.id)), // voltou a alarmar: sai dos normalizados
+      ].slice(0, CLEARED_MAX),
+    };
+  }
+
+  // ----- Fluxo ao vivo (relay) -----
+  private openStream() {
+    const connect = this.options.stream;
+    if (!connect || this.closeStream) return;
+    this.closeStream = connect({
+      event: (e) => this.onStreamEvent(e),
+      drop: (reason) => this.onStreamDrop(reason),
+    });
+  }
+
+  // Caiu (ou nunca abriu): volta ao polling já e tenta o fluxo de novo mais tarde.
+  // Nova tentativa que falha só reagenda a próxima: o polling já está rodando
+  private onStreamDrop(reason: string) {
+    this.closeStream = undefined;
+    const wasLive = !!this.streamAlarms;
+    if (wasLive) {
+      // A última leitura ao vivo vira a base da comparação do polling
+      const ok = Object.keys(this.streamStatus).filter((name) => this.streamStatus[name].ok);
+      this.snapshot = { rows: this.state.rows, servers: new Set(ok), query: JSON.stringify(this.query) };
+      this.streamAlarms = null;
+    }
+    if (this.listeners.size === 0) return;
+    this.setState({ live: false, connectionNote: t('feed.streamFallback', { reason }) });
+    if (wasLive || !this.polling) {
+      this.polling = true;
+      void this.refresh();
+    }
+    clearTimeout(this.streamRetry);
+    this.streamRetry = setTimeout(() => this.openStream(), STREAM_RETRY_MS);
+  }
+
+  private serverNamed(name: string): AdxServer | undefined {
+    return this.servers().find((s) => s.name === name);
+  }
+
+  // Linhas a partir dos alarmes do fluxo, na ordem do registro, com o filtro atual
+  private streamRows(): Pick<FeedState, 'rows' | 'newIds'> {
+    const rows: Row[] = [];
+    for (const srv of this.servers()) {
+      for (const a of this.streamAlarms?.get(srv.name)?.values() ?? []) {
+        if (matchesQuery(a, this.query)) rows.push(mapAlarm(srv, a));
+      }
+    }
+    const ids = new Set(rows.map((r) => r.id));
+    return { rows, newIds: new Set([...this.state.newIds].filter((id) => ids.has(id))) };
+  }
+
+  private streamNotes(): Pick<FeedState, 'connectionNote' | 'truncatedNote'> {
+    const counts: string[] = [];
+    const failures: string[] = [];
+    const truncated: string[] = [];
+    for (const srv of this.servers()) {
+      const st = this.streamStatus[srv.name];
+      if (st && !st.ok) failures.push(srv.label);
+      else counts.push(`${srv.label}: ${this.streamAlarms?.get(srv.name)?.size ?? 0}`);
+      if (st?.ok && st.truncated) truncated.push(t('feed.truncatedItem', { server: srv.label, count: st.count ?? 0, total: st.total ?? 0 }));
+    }
+    return {
+      connectionNote: failures.length
+        ? t('feed.liveFailed', { servers: failures.join(', ') })
+        : t('feed.live', { counts: counts.join(' + ') }),
+      truncatedNote: truncated.length ? t('feed.truncated', { list: truncated.join(', ') }) : '',
+    };
+  }
+
+  private applyStatus(name: string, st: RelayStatus, health: HealthMap): HealthMap {
+    this.streamStatus[name] = st;
+    const next = { ...health };
+    next[name] = st.ok
+      ? recordSuccess(next[name], st.latencyMs ?? 0, st.count ?? 0, st.at)
+      : recordFailure(next[name], st.status ? new ApiError(st.error ?? '', st.status) : new Error(st.error), st.at);
+    return next;
+  }
+
+  private onStreamEvent(e: RelayEvent) {
+    if (e.type === 'snapshot') {
+      const wasLive = !!this.streamAlarms;
+      this.streamAlarms = new Map();
+      this.streamStatus = {};
+      this.polling = false;
+      clearTimeout(this.timer);
+      clearTimeout(this.streamRetry);
+      let health = this.state.health;
+      for (const [name, st] of Object.entries(e.servers)) {
+        if (!this.serverNamed(name)) continue;
+        this.streamAlarms.set(name, new Map(st.alarms.map((a) => [a.id, a])));
+        if (st.status) health = this.applyStatus(name, st.status, health);
+      }
+      const next = this.streamRows();
+      const patch: Partial<FeedState> = { ...next, ...this.streamNotes(), health };
+
+      // Voltando do polling: compara com a última leitura (servidores ok nas duas)
+      const prev = this.snapshot;
+      if (!wasLive && prev && prev.query === JSON.stringify(this.query)) {
+        const inScope = (id: string) => {
+          const name = this.serverOf(id)?.name;
+          return !!name && prev.servers.has(name) && this.streamStatus[name]?.ok === true;
+        };
+        const { added, removed } = diffSnapshot(prev.rows, next.rows, inScope);
+        Object.assign(patch, this.changes(added, removed, next.rows));
+      }
+      this.setState({ ...patch, live: true, loading: false, error: '', refreshedAt: Date.now() });
+      return;
+    }
+
+    const srv = this.serverNamed(e.server);
+    const alarms = this.streamAlarms?.get(e.server);
+    if (!srv || !alarms) return;
+
+    if (e.type === 'status') {
+      const health = this.applyStatus(e.server, e.status, this.state.health);
+      this.setState({ health, ...this.streamNotes(), refreshedAt: Date.now() });
+      if (e.status.ok) {
+        const fresh = [...alarms.values()].map((a) => mapAlarm(srv, a));
+        // o relay manda a lista sem filtro; truncada, a falta de um alarme não é normalização
+        this.options.archive?.(fresh, (id) => !e.status.truncated && this.serverOf(id)?.name === e.server)
+          .then(() => this.setState({ archivedAt: Date.now(), archiveError: '' }))
+          .catch((err) => this.setState({ archiveError: message(err) }));
+      }
+      return;
+    }
+
+    const rows = this.state.rows;
+    if (e.type === 'clear') {
+      const prev = alarms.get(e.id);
+      alarms.delete(e.id);
+      const id = composeRowId(srv, e.id);
+      const row = rows.find((r) => r.id === id);
+      if (!prev || !row) return;
+      const next = rows.filter((r) => r.id !== id);
+      this.setState({ rows: next, ...this.changes([], [row], next) });
+      return;
+    }
+
+    // add / update: a linha entra, muda de lugar ou sai conforme o filtro
+    const isNew = !alarms.has(e.alarm.id);
+    alarms.set(e.alarm.id, e.alarm);
+    const row = mapAlarm(srv, e.alarm);
+    const at = rows.findIndex((r) => r.id === row.id);
+    const visible = matchesQuery(e.alarm, this.query);
+    let next = rows;
+    if (visible && at >= 0) next = rows.map((r, i) => (i === at ? row : r));
+    else if (visible) next = [...rows, row];
+    else if (at >= 0) next = rows.filter((_, i) => i !== at);
+    if (next === rows) return;
+    this.setState(isNew && visible ? { rows: next, ...this.changes([row], [], next) } : { rows: next });
+  }
+
+  // Reconhecer/Descartar no servidor de origem (tirado do ID composto).
+  // Atualiza as linhas na hora e desfaz nas que falharem.
+  async act(ids: string[], action: AlarmAction, annotation?: string): Promise<ActionResult> {
+    const targets = this.state.rows.filter((r) => ids.includes(r.id) && !actionState(r, action));
+    const targetIds = new Set(targets.map((r) => r.id));
+    if (targets.length === 0) return { targets: [], failed: [], messages: [] };
+
+    this.setState({ rows: this.state.rows.map((r) => (targetIds.has(r.id) ? withActionState(r, action, true) : r)) });
+
+    const results = await Promise.allSettled(targets.map(async (r) => {
+      const parsed = parseRowId(r.id, this.servers());
+      if (!parsed) throw new Error(t('feed.unknownServer', { id: r.id }));
+      const { server, alarmId } = parsed;
+      await withAuth(server, (token) => alarmAction(server.apiBase, token, alarmId, action, annotation));
+    }));
+
+    const failed: string[] = [];
+    const messages: string[] = [];
+    results.forEach((res, i) => {
+      if (res.status === 'rejected') {
+        failed.push(targets[i].id);
+        messages.push(message(res.reason));
+      }
+    });
+    if (failed.length > 0) {
+      const undo = new Set(failed);
+      this.setState({ rows: this.state.rows.map((r) => (undo.has(r.id) ? withActionState(r, action, false) : r)) });
+    }
+    return { targets: [...targetIds], failed, messages };
+  }
+}
+
+// Instância usada pelo app: fluxo do relay, notifica pelas regras e grava o arquivo local (IndexedDB)
+export const alarmFeed = new AlarmFeed({
+  stream: eventSourceStream(),
+  notify: notifyNewAlarms,
+  archive: (rows, inScope) => recordSnapshot(rows, inScope).then(() => pruneHistory(loadRetentionDays())),
+});
@@ -0,0 +1,94 @@
+// src/alarms/analytics.ts
+import { formatNumber, getLocale, t } from '../i18n/i18n';
+import { parseRowId } from '../lib/servers';
+import { severityCounts, severityLabel, type SeverityBand } from './severity';
+import type { Row } from './types';
+
+/* =========================================
+   Agregações do painel de análise — tudo a partir das linhas já filtradas.
+   Cada barra leva a "key" usada p/ aplicar o filtro correspondente na tabela.
+   ========================================= */
+export type Bar = { key: string; label: string; value: number; disabled?: boolean }; // disabled: só informa, não filtra
+export type Granularity = 'hour' | 'day';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// key = "YYYY-MM-DD" (dia) ou "YYYY-MM-DDTHH" (hora), no horário local
+function bucketKey(iso: string, g: Granularity): string {
+  const d = new Date(iso);
+  const day = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  return g === 'day' ? day : `${day}T${pad(d.getHours())}`;
+}
+
+// Dia no formato do idioma (10/03/2026 | 03/10/2026)
+function bucketLabel(key: string, g: Granularity): string {
+  const [y, m, d] = key.slice(0, 10).split('-').map(Number);
+  const day = new Date(y, m - 1, d);
+  if (g === 'day') return day.toLocaleDateString(getLocale(), { day: '2-digit', month: '2-digit', year: 'numeric' });
+  const short = day.toLocaleDateString(getLocale(), { day: '2-digit', month: '2-digit' });
+  return t('dashboard.hourLabel', { day: short, hour: key.slice(11) });
+}
+
+// Série contínua (inclui intervalos sem alarmes) entre o mais antigo e o mais novo
+export function alarmsOverTime(rows: Row[], g: Granularity): Bar[] {
+  if (rows.length === 0) return [];
+  const counts = new Map<string, number>();
+  let min = Infinity;
+  let max = -Infinity;
+  for (const r of rows) {
+    const ts = new Date(r.dateTimeISO).getTime();
+    if (!Number.isFinite(ts)) continue;
+    min = Math.min(min, ts);
+    max = Math.max(max, ts);
+    const k = bucketKey(r.dateTimeISO, g);
+    counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  if (!Number.isFinite(min)) return [];
+
+  const bars: Bar[] = [];
+  const cursor = new Date(min);
+  if (g === 'day') cursor.setHours(0, 0, 0, 0); else cursor.setMinutes(0, 0, 0);
+  // teto p/ não desenhar milhares de barras num intervalo enorme
+  for (let i = 0; cursor.getTime() <= max && i < 1000; i++) {
+    const k = bucketKey(cursor.toISOString(), g);
+    bars.push({ key: k, label: bucketLabel(k, g), value: counts.get(k) ?? 0 });
+    if (g === 'day') cursor.setDate(cursor.getDate() + 1); else cursor.setHours(cursor.getHours() + 1);
+  }
+  return bars;
+}
+
+// key = id da faixa (filtro de severidade)
+export function bySeverity(rows: Row[], bands: SeverityBand[]): Bar[] {
+  const counts = severityCounts(rows.map((r) => r.priority), bands);
+  return bands.map((b) => ({ key: b.id, label: `${severityLabel(b.id)} (${formatNumber(b.min)}–${formatNumber(b.max)})`, value: counts.get(b.id) ?? 0 }));
+}
+
+function countBy(rows: Row[], keyOf: (r: Row) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const r of rows) {
+    const k = keyOf(r);
+    counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function byServer(rows: Row[]): Bar[] {
+  // Servidor fora do registro: barra "?" sem clique (o filtro só tem os servidores do registro)
+  return [...countBy(rows, (r) => parseRowId(r.id)?.server.label ?? '')]
+    .map(([label, value]) => ({ key: label, label: label || '?', value, disabled: !label }));
+}
+
+export function topN(rows: Row[], field: 'site' | 'point', n: number): Bar[] {
+  return [...countBy(rows, (r) => r[field])]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, n)
+    .map(([label, value]) => ({ key: label, label, value }));
+}
+
+export function ackRatio(rows: Row[]): Bar[] {
+  const ack = rows.filter((r) => r.reconhecido).length;
+  return [
+    { key: 'nao', label: t('analytics.notAcked'), value: rows.length - ack },
+    { key: 'sim', label: t('analytics.acked'), value: ack },
+  ];
+}
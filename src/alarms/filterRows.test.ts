@@ -0,0 +1,24 @@
+// src/alarms/filterRows.test.ts
+import { describe, expect, it } from 'vitest';
+import { filterRows } from './filterRows';
+import type { Row } from './types';
+import { DEFAULT_FILTERS } from './viewState';
+
+const row = (id: string, site: string, point: string): Row => ({
+  id, site, point, dateTimeISO: '2026-03-10T12:00:00Z', value: '', unit: '', priority: 100, reconhecido: false, descartado: false,
+});
+
+describe('busca global', () => {
+  const rows = [row('x-1', 'AHU-01', 'Temp'), row('x-2', 'CH-02', 'AHU-01 feed'), row('x-3', 'CH-03', 'Pressão')];
+  const search = (expr: string) => filterRows(rows, { ...DEFAULT_FILTERS, search: expr }).map((r) => r.id);
+
+  it('regex com âncora vale em cada campo', () => {
+    expect(search('/^AHU-\\d+/')).toEqual(['x-1', 'x-2']);
+    expect(search('/^ahu-01$/')).toEqual(['x-1']);
+  });
+
+  it('negada: nenhum campo pode casar', () => {
+    expect(search('!/^AHU/')).toEqual(['x-3']);
+    expect(search('!ahu')).toEqual(['x-3']);
+  });
+});
@@ -0,0 +1,115 @@
+// src/alarms/filterRows.ts
+import { formatDateTime, yesNo } from '../i18n/i18n';
+import { fieldsMatcher, textMatcher, numberMatcher, type Matcher } from '../lib/filterExpr';
+import { enumLabel, unitLabel } from '../lib/metasysEnums';
+import { parseRowId } from '../lib/servers';
+import { DEFAULT_SEVERITY_BANDS, severityOf, severityRank, type SeverityBand } from './severity';
+import type { Row } from './types';
+import type { Filters, SortDir, SortKey } from './viewState';
+
+/* =========================================
+   Filtro e ordenação das linhas a partir de uma visão (Filters + ordem)
+   Usado pela tabela e pelo modo quiosque.
+   ========================================= */
+export type FilterMatchers = {
+  search: Matcher<string[]>;
+  site: Matcher<string>;
+  point: Matcher<string>;
+  value: Matcher<string>;
+  priority: Matcher<number>;
+  severity: Matcher<number>;   // prioridade -> faixa selecionada
+};
+
+export function filterMatchers(f: Filters, bands: SeverityBand[] = DEFAULT_SEVERITY_BANDS): FilterMatchers {
+  const severities = new Set(f.severities);
+  return {
+    search: fieldsMatcher(f.search),
+    site: textMatcher(f.site),
+    point: textMatcher(f.point),
+    value: textMatcher(f.value),
+    priority: numberMatcher(f.priority),
+    severity: { test: (p) => severities.size === 0 || severities.has(severityOf(p, bands).id) },
+  };
+}
+
+export function filterErrors(m: FilterMatchers): string[] {
+  return Object.values(m).flatMap((x) => (x.error ? [x.error] : []));
+}
+
+// "latestNote" entra na busca global (último comentário do alarme)
+export function filterRows(
+  rows: Row[],
+  f: Filters,
+  matchers: FilterMatchers = filterMatchers(f),
+  latestNote: (id: string) => string = () => '',
+): Row[] {
+  const from = f.dateFrom ? new Date(`${f.dateFrom}T00:00:00`).getTime() : undefined;
+  const to   = f.dateTo   ? new Date(`${f.dateTo}T23:59:59.999`).getTime() : undefined;
+  const sites = new Set(f.sites);
+  const units = new Set(f.units);
+  const servers = new Set(f.servers);
+  const searching = f.search.trim() !== '';
+
+  return rows.filter((r) => {
+    const passSite  = matchers.site.test(r.site) && (sites.size === 0 || sites.has(r.site));
+    const passPoint = matchers.point.test(r.point);
+    const passValue = matchers.value.test(enumLabel(r.value));
+    const passUnit  = units.size === 0 || units.has(r.unit);
+    const passServer = servers.size === 0 || servers.has(parseRowId(r.id)?.server.label ?? '');
+
+    const ts = new Date(r.dateTimeISO).getTime();
+    const passFrom = from === undefined ? true : ts >= from;
+    const passTo   = to   === undefined ? true : ts <= to;
+
+    const passAck  = f.ack  === 'all' || (f.ack  === 'sim') === r.reconhecido;
+    const passDisc = f.disc === 'all' || (f.disc === 'sim') === r.descartado;
+
+    const passPriority = matchers.priority.test(r.priority) && matchers.severity.test(r.priority);
+
+    // Busca global: colunas como exibidas no idioma atual + servidor + último comentário (regex testada campo a campo)
+    const passSearch = !searching || matchers.search.test([
+      formatDateTime(r.dateTimeISO), r.site, r.point, enumLabel(r.value), unitLabel(r.unit), String(r.priority), yesNo(r.reconhecido), yesNo(r.descartado),
+      parseRowId(r.id)?.server.label ?? '', latestNote(r.id),
+    ]);
+
+    return passSite && passPoint && passValue && passUnit && passServer && passFrom && passTo
+      && passAck && passDisc && passPriority && passSearch;
+  });
+}
+
+export function sortRows(
+  rows: Row[],
+  sortKey: SortKey,
+  sortDir: SortDir,
+  bands: SeverityBand[] = DEFAULT_SEVERITY_BANDS,
+): Row[] {
+  const data = [...rows];
+  const dir = sortDir === 'asc' ? 1 : -1;
+  data.sort((a, b) => {
+    switch (sortKey) {
+      case 'dateTime': {
+        const ta = new Date(a.dateTimeISO).getTime();
+        const tb = new Date(b.dateTimeISO).getTime();
+        return (ta - tb) * dir;
+      }
+      case 'site':         return a.site.localeCompare(b.site) * dir;
+      case 'point':        return a.point.localeCompare(b.point) * dir;
+      case 'unit':         return unitLabel(a.unit).localeCompare(unitLabel(b.unit)) * dir;
+      case 'reconhecido':  return (Number(a.reconhecido) - Number(b.reconhecido)) * dir;
+      case 'descartado':   return (Number(a.descartado) - Number(b.descartado)) * dir;
+      case 'priority':     return (a.priority - b.priority) * dir;
+      // mesma faixa: mais recente primeiro, nos dois sentidos
+      case 'severity':
+        return (severityRank(a.priority, bands) - severityRank(b.priority, bands)) * dir
+          || b.dateTimeISO.localeCompare(a.dateTimeISO);
+      case 'value': {
+        const na = parseFloat(a.value.replace(',', '.'));
+        const nb = parseFloat(b.value.replace(',', '.'));
+        if (!Number.isNaN(na) && !Number.isNaN(nb)) return (na - nb) * dir;
+        return enumLabel(a.value).localeCompare(enumLabel(b.value)) * dir;
+      }
+      default: return 0;
+    }
+  });
+  return data;
+}
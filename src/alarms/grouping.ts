@@ -0,0 +1,149 @@
+// src/alarms/grouping.ts
+import { unitLabel } from '../lib/metasysEnums';
+import { parseRowId } from '../lib/servers';
+import { t, type MessageKey } from '../i18n/i18n';
+import { DEFAULT_SEVERITY_BANDS, severityLabel, severityOf, type SeverityBand, type SeverityId } from './severity';
+import type { Row } from './types';
+
+/* =========================================
+   Agrupamento e deduplicação da tabela
+   Deduplicar junta alarmes repetidos do mesmo ponto (itemReference/nome no
+   mesmo servidor) numa linha só, com a contagem de ocorrências.
+   Agrupar separa as linhas (já ordenadas) em blocos recolhíveis.
+   ========================================= */
+export type GroupBy = 'none' | 'site' | 'point' | 'band' | 'server' | 'unit';
+
+export const GROUP_BY_LABELS: [GroupBy, MessageKey][] = [
+  ['none', 'group.none'],
+  ['site', 'col.site'],
+  ['point', 'col.point'],
+  ['band', 'col.severity'],
+  ['server', 'col.server'],
+  ['unit', 'col.unit'],
+];
+
+// "row" = a primeira na ordem atual; "repeats" = as demais ocorrências do mesmo ponto
+export type FoldedRow = { row: Row; repeats: Row[] };
+
+export type RowGroup = {
+  key: string;          // valor agrupado (faixa: id da severidade); nome exibido: groupLabel
+  items: FoldedRow[];
+  count: number;        // alarmes, contando as repetições
+  newestISO: string;
+  topPriority: number;  // menor número = mais crítico
+};
+
+const serverOf = (r: Row) => parseRowId(r.id)?.server.label ?? '';
+
+export function dedupeKey(r: Row): string {
+  return `${serverOf(r)}|${r.site}|${r.point}`;
+}
+
+// Mantém a ordem de entrada (a da tabela)
+export function foldRows(rows: Row[], dedupe: boolean): FoldedRow[] {
+  if (!dedupe) return rows.map((row) => ({ row, repeats: [] }));
+  const byKey = new Map<string, FoldedRow>();
+  for (const row of rows) {
+    const k = dedupeKey(row);
+    const item = byKey.get(k);
+    if (item) item.repeats.push(row);
+    else byKey.set(k, { row, repeats: [] });
+  }
+  return [...byKey.values()];
+}
+
+function groupKey(r: Row, by: GroupBy, bands: SeverityBand[]): string {
+  switch (by) {
+    case 'site':   return r.site;
+    case 'point':  return r.point;
+    case 'band':   return severityOf(r.priority, bands).id;
+    case 'server': return serverOf(r);
+    case 'unit':   return r.unit;
+    default:       return '';
+  }
+}
+
+// Nome do grupo no idioma atual (montado na hora de exibir)
+export function groupLabel(g: RowGroup, by: GroupBy): string {
+  if (by === 'band') return severityLabel(g.key as SeverityId);
+  return (by === 'unit' ? unitLabel(g.key) : g.key) || t('common.empty');
+}
+
+// Grupos na ordem em que aparecem, exceto severidade (sempre da mais crítica p/ a menos)
+export function groupRows(items: FoldedRow[], by: GroupBy, bands: SeverityBand[] = DEFAULT_SEVERITY_BANDS): RowGroup[] {
+  const groups = new Map<string, RowGroup>();
+  for (const item of items) {
+    const key = groupKey(item.row, by, bands);
+    let g = groups.get(key);
+    if (!g) {
+      g = { key, items: [], count: 0, newestISO: '', topPriority: Infinity };
+      groups.set(key, g);
+    }
+    g.items.push(item);
+    for (const r of [item.row, ...item.repeats]) {
+      g.count++;
+      if (r.dateTimeISO > g.newestISO) g.newestISO = r.dateTimeISO;
+      g.topPriority = Math.min(g.topPriority, r.priority);
+    }
+  }
+  const list = [...groups.values()];
+  if (by === 'band') {
+    const order = (id: string) => bands.findIndex((b) => b.id === id);
+    list.sort((a, b) => order(a.key) - order(b.key));
+  }
+  return list;
+}
+
+// ----- Linhas da tabela em ordem de exibição (entrada da janela virtual) -----
+export type TableEntry =
+  | { kind: 'group'; key: string; group: RowGroup; collapsed: boolean }
+  | { kind: 'row'; key: string; row: Row; repeats: Row[]; isRepeat: boolean }
+  | { kind: 'drawer'; key: string; row: Row };
+
+export type EntryState = {
+  collapsedGroups: Set<string>;
+  openRepeats: Set<string>;   // linhas com as repetições à mostra
+  openDrawers: Set<string>;   // linhas com a gaveta de notas aberta
+};
+
+export function tableEntries(items: FoldedRow[], groups: RowGroup[] | null, state: EntryState): TableEntry[] {
+  const out: TableEntry[] = [];
+  const pushRow = (row: Row, repeats: Row[], isRepeat: boolean) => {
+    out.push({ kind: 'row', key: row.id, row, repeats, isRepeat });
+    if (state.openDrawers.has(row.id)) out.push({ kind: 'drawer', key: `drawer-${row.id}`, row });
+  };
+  const pushItem = (item: FoldedRow) => {
+    pushRow(item.row, item.repeats, false);
+    if (state.openRepeats.has(item.row.id)) for (const r of item.repeats) pushRow(r, [], true);
+  };
+
+  if (!groups) {
+    items.forEach(pushItem);
+    return out;
+  }
+  for (const group of groups) {
+    const collapsed = state.collapsedGroups.has(group.key);
+    out.push({ kind: 'group', key: `group-${group.key}`, group, collapsed });
+    if (!collapsed) group.items.forEach(pushItem);
+  }
+  return out;
+}
+
+// ----- Preferências (localStorage) -----
+const GROUPING_KEY = 'alarms_grouping';
+export type GroupingPrefs = { groupBy: GroupBy; dedupe: boolean };
+
+export function loadGroupingPrefs(): GroupingPrefs {
+  try {
+    const raw = localStorage.getItem(GROUPING_KEY);
+    if (raw) {
+      const p = JSON.parse(raw) as Partial<GroupingPrefs>;
+      const groupBy = GROUP_BY_LABELS.find(([k]) => k === p.groupBy)?.[0] ?? 'none';
+      return { groupBy, dedupe: !!p.dedupe };
+    }
+  } catch { /* preferências corrompidas: usa o padrão */ }
+  return { groupBy: 'none', dedupe: false };
+}
+export function saveGroupingPrefs(prefs: GroupingPrefs) {
+  try { localStorage.setItem(GROUPING_KEY, JSON.stringify(prefs)); } catch { /* sem storage */ }
+}
@@ -0,0 +1,141 @@
+// src/alarms/history.ts
+import type { Row } from './types';
+
+/* =========================================
+   Histórico local de alarmes (IndexedDB)
+   Cada atualização grava as linhas por ID composto, com primeira/última
+   vez vista, normalização e mudanças de estado. Registros cuja última
+   leitura passou da retenção são apagados.
+   ========================================= */
+export type StateChange = {
+  at: string; // ISO
+  field: 'reconhecido' | 'descartado' | 'ativo';
+  from: boolean;
+  to: boolean;
+};
+
+export type HistoryRecord = {
+  id: string;
+  row: Row;             // último estado conhecido
+  firstSeen: string;    // ISO
+  lastSeen: string;
+  clearedAt?: string;   // saiu da lista do servidor (normalizou)
+  changes: StateChange[];
+};
+
+const DB_NAME = 'alarmboard';
+const DB_VERSION = 1;
+const STORE = 'alarms';
+
+const RETENTION_KEY = 'alarms_history_retention_days';
+export const DEFAULT_RETENTION_DAYS = 30;
+
+export function loadRetentionDays(): number {
+  try {
+    const n = Number(localStorage.getItem(RETENTION_KEY));
+    if (Number.isFinite(n) && n > 0) return n;
+  } catch { /* sem storage */ }
+  return DEFAULT_RETENTION_DAYS;
+}
+export function saveRetentionDays(days: number) {
+  try { localStorage.setItem(RETENTION_KEY, String(days)); } catch { /* sem storage */ }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('lastSeen', 'lastSeen');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+const TRACKED: ('reconhecido' | 'descartado')[] = ['reconhecido', 'descartado'];
+
+// Registros gravados antes dos idiomas guardavam os estados como 'Sim'/'Não'
+const asBool = (v: unknown) => v === true || v === 'Sim';
+function normalizeRecord(rec: HistoryRecord): HistoryRecord {
+  return {
+    ...rec,
+    row: { ...rec.row, reconhecido: asBool(rec.row.reconhecido), descartado: asBool(rec.row.descartado) },
+    changes: rec.changes.map((c) => ({ ...c, from: asBool(c.from), to: asBool(c.to) })),
+  };
+}
+
+// Grava uma leitura. "inScope" = servidores que responderam: só eles podem normalizar alarmes.
+export async function recordSnapshot(rows: Row[], inScope: (id: string) => boolean): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  const now = new Date().toISOString();
+  const stored = await request(store.getAll() as IDBRequest<HistoryRecord[]>);
+  const existing = new Map(stored.map((r) => [r.id, normalizeRecord(r)]));
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    seen.add(row.id);
+    const prev = existing.get(row.id);
+    if (!prev) {
+      store.put({ id: row.id, row, firstSeen: now, lastSeen: now, changes: [] } satisfies HistoryRecord);
+      continue;
+    }
+    const changes = [...prev.changes];
+    if (prev.clearedAt) changes.push({ at: now, field: 'ativo', from: false, to: true });
+    for (const field of TRACKED) {
+      if (prev.row[field] !== row[field]) changes.push({ at: now, field, from: prev.row[field], to: row[field] });
+    }
+    store.put({ ...prev, row, lastSeen: now, clearedAt: undefined, changes } satisfies HistoryRecord);
+  }
+
+  for (const rec of existing.values()) {
+    if (seen.has(rec.id) || rec.clearedAt || !inScope(rec.id)) continue;
+    store.put({
+      ...rec,
+      clearedAt: now,
+      changes: [...rec.changes, { at: now, field: 'ativo', from: true, to: false }],
+    } satisfies HistoryRecord);
+  }
+  await completion(tx);
+}
+
+export async function pruneHistory(retentionDays: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const limit = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  tx.objectStore(STORE).index('lastSeen').openCursor(IDBKeyRange.upperBound(limit, true)).onsuccess = (e) => {
+    const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await completion(tx);
+}
+
+export async function loadHistory(): Promise<HistoryRecord[]> {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  return (await request(tx.objectStore(STORE).getAll() as IDBRequest<HistoryRecord[]>)).map(normalizeRecord);
+}
@@ -0,0 +1,60 @@
+// src/alarms/mapAlarm.test.ts
+import { describe, expect, it } from 'vitest';
+import { MOCK_ALARMS } from '../../server/mockMetasys';
+import { enumLabel } from '../lib/metasysEnums';
+import { parseRowId, type AdxServer } from '../lib/servers';
+import { coercePriority, mapAlarm, type RawAlarm } from './mapAlarm';
+
+const server: AdxServer = { name: '10.2.1.100', label: 'ADX 100', apiBase: '/api100', enabled: true };
+const fixtures: RawAlarm[] = MOCK_ALARMS; // prioridade em texto de propósito
+
+describe('coercePriority', () => {
+  it.each([
+    [20, 20],
+    ['50', 50],
+    [' 7 ', 7],
+    ['alta', 0],
+    ['', 0],
+    [null, 0],
+    [undefined, 0],
+    [Number.NaN, 0],
+  ])('%j -> %j', (raw, expected) => {
+    expect(coercePriority(raw)).toBe(expected);
+  });
+});
+
+describe('mapAlarm (fixtures)', () => {
+  const rows = fixtures.map((a) => mapAlarm(server, a));
+
+  it('mapeia cada caso de borda', () => {
+    expect(rows.map(({ value, unit, priority, point }) => ({ value, unit, priority, point }))).toEqual([
+      { value: '78.5', unit: '°F', priority: 20, point: 'AHU-01 Temp. Zona' },
+      { value: '12', unit: '°C', priority: 80, point: 'AHU-01 Temp. Insuflamento' },
+      { value: 'Falha', unit: '', priority: 10, point: 'Chiller 01 Status' },
+      { value: 'true', unit: '', priority: 50, point: 'Chiller 01 Alarme' },
+      { value: 'Desligado', unit: '', priority: 0, point: 'ADX100:NAE-2/FC-1.BOMBA-03.CMD' }, // sem nome: usa o itemReference
+      { value: '', unit: '', priority: 200, point: 'Bomba 03 Vazão' },
+      { value: '65.25', unit: '%', priority: 120, point: 'AHU-07 Umidade' },
+      { value: 'alarmValueEnumSet.avHighAlarm', unit: '', priority: 15, point: 'Chiller 02 Alta Pressão' },
+      { value: '187.3', unit: 'psi', priority: 60, point: 'Chiller 02 Pressão Condensação' },
+    ]);
+  });
+
+  it('guarda estados enumerados crus: o idioma entra só na exibição', () => {
+    expect(enumLabel(rows[7].value)).toBe('Alarme alto');
+  });
+
+  it('mantém os estados como booleanos', () => {
+    expect(rows.map((r) => [r.reconhecido, r.descartado])).toEqual([
+      [false, false], [true, false], [false, true], [false, false], [false, false], [true, true], [false, false],
+      [false, false], [false, false],
+    ]);
+  });
+
+  it('gera ID composto que volta ao servidor e ao ID original', () => {
+    for (const [i, r] of rows.entries()) {
+      expect(r.id).toBe(`10.2.1.100-${fixtures[i].id}`);
+      expect(parseRowId(r.id)).toEqual({ server: expect.objectContaining({ name: '10.2.1.100' }), alarmId: fixtures[i].id });
+    }
+  });
+});
@@ -0,0 +1,29 @@
+// src/alarms/mapAlarm.ts
+import { normalizeValue, type AlarmDTO } from '../lib/api';
+import { mapUnit } from '../lib/metasysEnums';
+import { composeRowId, type AdxServer } from '../lib/servers';
+import type { Row } from './types';
+
+// Prioridade pode vir como número, como texto ("20") ou faltar; inválida vira 0
+export function coercePriority(raw: unknown): number {
+  const n = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  return typeof n === 'number' && Number.isFinite(n) ? n : 0;
+}
+
+// Alarme como chega do servidor: a prioridade nem sempre respeita o tipo do DTO
+export type RawAlarm = Omit<AlarmDTO, 'priority'> & { priority: unknown };
+
+// AlarmDTO -> linha da tabela, com ID COMPOSTO
+export function mapAlarm(server: AdxServer, a: RawAlarm): Row {
+  return {
+    id: composeRowId(server, a.id),
+    dateTimeISO: a.creationTime,
+    site: a.itemReference,
+    point: a.name || a.itemReference,
+    value: normalizeValue(a.triggerValue?.value),
+    unit: mapUnit(a.triggerValue?.units),
+    priority: coercePriority(a.priority),
+    reconhecido: a.isAcknowledged,
+    descartado: a.isDiscarded,
+  };
+}
@@ -0,0 +1,52 @@
+// src/alarms/pointDetail.test.ts
+import { describe, expect, it } from 'vitest';
+import { describePoint, earlierAlarms } from './pointDetail';
+import type { Row } from './types';
+
+const row = (id: string, site: string, dateTimeISO: string): Row => ({
+  id, site, dateTimeISO, point: id, value: '', unit: '', priority: 50, reconhecido: false, descartado: false,
+});
+
+describe('describePoint', () => {
+  const item = {
+    id: 'guid', self: 'x', name: 'ZN-T', itemReference: 'ADX:NAE-1/FC-1.AHU-01.ZN-T',
+    presentValue: { value: 77, reliability: 'reliabilityEnumSet.reliable' },
+    units: 'unitEnumSet.degF',
+    zAttr: 3,
+    highAlarmLimit: 80,
+    status: 'statusEnumSet.alarm',
+    outOfService: false,
+    description: '',
+  };
+
+  it('rotula os atributos conhecidos primeiro e omite os vazios', () => {
+    const d = describePoint(item);
+    expect(d).toMatchObject({ name: 'ZN-T', presentValue: '77', units: '°F' });
+    expect(d.attributes.map((a) => [a.label, a.value])).toEqual([
+      ['Status', 'Alarme'],
+      ['Fora de serviço', 'Não'],
+      ['Limite alto', '80 °F'],
+      ['zAttr', '3'],
+    ]);
+  });
+
+  it('converte valor e limites p/ o sistema de unidades', () => {
+    const d = describePoint(item, 'si');
+    expect(d).toMatchObject({ presentValue: '25', units: '°C' });
+    expect(d.attributes.find((a) => a.key === 'highAlarmLimit')?.value).toBe('26.67 °C');
+  });
+});
+
+describe('earlierAlarms', () => {
+  it('só o mesmo ponto e antes do alarme, mais recente primeiro', () => {
+    const current = row('adx100-3', 'P1', '2026-03-10T12:00:00Z');
+    const rows = [
+      row('adx100-1', 'P1', '2026-03-10T10:00:00Z'),
+      current,
+      row('adx100-2', 'P1', '2026-03-10T11:00:00Z'),
+      row('adx100-4', 'P1', '2026-03-10T13:00:00Z'),
+      row('adx100-5', 'P2', '2026-03-10T09:00:00Z'),
+    ];
+    expect(earlierAlarms(rows, current).map((r) => r.id)).toEqual(['adx100-2', 'adx100-1']);
+  });
+});
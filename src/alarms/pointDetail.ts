@@ -0,0 +1,92 @@
+// src/alarms/pointDetail.ts
+import { t, yesNo, type MessageKey } from '../i18n/i18n';
+import type { MetasysObject } from '../lib/api';
+import { enumLabel, mapUnit, unitLabel } from '../lib/metasysEnums';
+import { convertValue, type UnitSystem } from '../lib/units';
+import type { Row } from './types';
+
+/* =========================================
+   Detalhe do alarme: atributos do ponto (GET /objects/:id) prontos p/ exibir
+   e ocorrências anteriores do mesmo itemReference entre as linhas carregadas
+   ========================================= */
+export type PointAttribute = { key: string; label: string; value: string };
+
+export type PointDetail = {
+  name: string;
+  presentValue: string;
+  units: string;
+  attributes: PointAttribute[];
+};
+
+// Atributos conhecidos, nesta ordem; os demais vêm depois, em ordem alfabética
+const ATTRIBUTE_LABELS: [string, MessageKey][] = [
+  ['description', 'attr.description'],
+  ['objectType', 'attr.objectType'],
+  ['status', 'attr.status'],
+  ['reliability', 'attr.reliability'],
+  ['outOfService', 'attr.outOfService'],
+  ['highAlarmLimit', 'attr.highAlarmLimit'],
+  ['lowAlarmLimit', 'attr.lowAlarmLimit'],
+  ['maxPresValue', 'attr.maxPresValue'],
+  ['minPresValue', 'attr.minPresValue'],
+  ['alarmState', 'attr.alarmState'],
+  ['timeDelay', 'attr.timeDelay'],
+  ['deadband', 'attr.deadband'],
+];
+
+// Valores na mesma unidade do presentValue (convertidos junto)
+const IN_POINT_UNITS = new Set(['highAlarmLimit', 'lowAlarmLimit', 'maxPresValue', 'minPresValue', 'deadband']);
+
+// Já mostrados no cabeçalho do detalhe ou sem interesse p/ o operador
+const HIDDEN = new Set(['id', 'self', 'name', 'itemReference', 'presentValue', 'units', 'objectCategory']);
+
+// Alguns servidores mandam { value, reliability } no lugar do valor puro
+function unwrap(v: unknown): unknown {
+  return v !== null && typeof v === 'object' && 'value' in v ? (v as { value: unknown }).value : v;
+}
+
+function attributeText(v: unknown): string {
+  const raw = unwrap(v);
+  if (raw === null || raw === undefined) return '';
+  if (typeof raw === 'boolean') return yesNo(raw);
+  if (typeof raw === 'string') return enumLabel(raw);
+  if (typeof raw === 'number') return String(raw);
+  return JSON.stringify(raw);
+}
+
+export function describePoint(item: MetasysObject, system: UnitSystem = 'original'): PointDetail {
+  const units = mapUnit(typeof item.units === 'string' ? item.units : undefined);
+  const inUnits = (text: string) => {
+    const c = convertValue(text, units, system);
+    return { value: c.value, unit: unitLabel(c.unit) };
+  };
+
+  const known = new Map(ATTRIBUTE_LABELS);
+  const keys = [
+    ...ATTRIBUTE_LABELS.map(([key]) => key).filter((key) => key in item),
+    ...Object.keys(item).filter((key) => !known.has(key) && !HIDDEN.has(key)).sort(),
+  ];
+  const attributes = keys
+    .map((key) => {
+      const text = attributeText(item[key]);
+      const value = IN_POINT_UNITS.has(key) ? `${inUnits(text).value} ${inUnits(text).unit}`.trim() : text;
+      const label = known.get(key);
+      return { key, label: label ? t(label) : key, value };
+    })
+    .filter((a) => a.value !== '');
+
+  const present = inUnits(attributeText(item.presentValue));
+  return {
+    name: typeof item.name === 'string' ? item.name : '',
+    presentValue: present.value,
+    units: present.unit,
+    attributes,
+  };
+}
+
+// Ocorrências anteriores do mesmo ponto (site = itemReference), mais recente primeiro
+export function earlierAlarms(rows: Row[], row: Row): Row[] {
+  return rows
+    .filter((r) => r.id !== row.id && r.site === row.site && r.dateTimeISO < row.dateTimeISO)
+    .sort((a, b) => b.dateTimeISO.localeCompare(a.dateTimeISO));
+}
@@ -0,0 +1,36 @@
+// src/alarms/savedViews.test.ts
+import { describe, expect, it } from 'vitest';
+import { filterMatchers, filterRows } from './filterRows';
+import { normalizeSavedViews, type SavedViewsStore } from './savedViews';
+import { DEFAULT_COLS, DEFAULT_FILTERS } from './viewState';
+
+// Visão padrão gravada antes da busca global, das listas e da coluna de severidade (como está no localStorage)
+const legacy = JSON.parse(`{
+  "defaultId": "v1",
+  "views": [{
+    "id": "v1",
+    "name": "Antiga",
+    "state": {
+      "filters": { "site": "AHU", "point": "", "value": "", "dateFrom": "", "dateTo": "", "priority": "", "ack": "nao", "disc": "all" },
+      "sortKey": "priority",
+      "sortDir": "asc",
+      "cols": { "dateTime": true, "site": true, "point": true, "value": true, "unit": true, "priority": true,
+        "reconhecido": true, "descartado": true, "comentario": true, "acoes": true }
+    }
+  }]
+}`) as SavedViewsStore;
+
+describe('normalizeSavedViews', () => {
+  it('completa filtros e colunas que a visão antiga não tinha', () => {
+    const [view] = normalizeSavedViews(legacy).views;
+    expect(view.state.filters).toEqual({ ...DEFAULT_FILTERS, site: 'AHU', ack: 'nao' });
+    expect(view.state.cols).toEqual(DEFAULT_COLS);
+    expect(() => filterRows([], view.state.filters, filterMatchers(view.state.filters))).not.toThrow();
+  });
+
+  it('mantém o que a visão já tinha', () => {
+    const store = normalizeSavedViews(legacy);
+    expect(store.defaultId).toBe('v1');
+    expect(store.views[0].state.sortKey).toBe('priority');
+  });
+});
@@ -0,0 +1,69 @@
+// src/alarms/savedViews.ts
+import { t } from '../i18n/i18n';
+import { DEFAULT_COLS, DEFAULT_FILTERS, parseViewState, serializeViewState, type ViewState } from './viewState';
+
+/* =========================================
+   Visões salvas (localStorage)
+   Cada visão guarda filtros, ordenação e colunas; uma pode ser a padrão
+   (aplicada ao abrir sem parâmetros na URL). Exporta/importa em JSON.
+   ========================================= */
+export type SavedView = { id: string; name: string; state: ViewState };
+export type SavedViewsStore = { views: SavedView[]; defaultId?: string };
+
+const VIEWS_KEY = 'alarms_saved_views';
+
+// Visões gravadas por versões antigas não têm os filtros/colunas novos: completa com o padrão
+export function normalizeSavedViews(store: SavedViewsStore): SavedViewsStore {
+  return {
+    ...store,
+    views: store.views.map((v) => ({
+      ...v,
+      state: {
+        ...v.state,
+        filters: { ...DEFAULT_FILTERS, ...v.state.filters },
+        cols: { ...DEFAULT_COLS, ...v.state.cols },
+      },
+    })),
+  };
+}
+
+export function loadSavedViews(): SavedViewsStore {
+  try {
+    const raw = localStorage.getItem(VIEWS_KEY);
+    if (raw) return normalizeSavedViews(JSON.parse(raw) as SavedViewsStore);
+  } catch { /* visões corrompidas: começa vazio */ }
+  return { views: [] };
+}
+export function saveSavedViews(store: SavedViewsStore) {
+  try { localStorage.setItem(VIEWS_KEY, JSON.stringify(store)); } catch { /* sem storage */ }
+}
+
+export function defaultView(store: SavedViewsStore = loadSavedViews()): SavedView | undefined {
+  return store.views.find((v) => v.id === store.defaultId);
+}
+
+export function newViewId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// ----- Arquivo JSON p/ compartilhar com a equipe -----
+// O estado vai como query string: mesmo formato dos links, tolerante a versões
+type ViewFile = { app: 'alarmboard'; views: { name: string; query: string }[] };
+
+export function exportViewsJson(views: SavedView[]): string {
+  const file: ViewFile = {
+    app: 'alarmboard',
+    views: views.map((v) => ({ name: v.name, query: serializeViewState(v.state) })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseViewsJson(text: string): SavedView[] {
+  const file = JSON.parse(text) as Partial<ViewFile>;
+  if (file?.app !== 'alarmboard' || !Array.isArray(file.views)) {
+    throw new Error(t('views.badFile'));
+  }
+  return file.views
+    .filter((v) => typeof v?.name === 'string' && typeof v?.query === 'string')
+    .map((v) => ({ id: newViewId(), name: v.name, state: parseViewState(v.query, DEFAULT_COLS) }));
+}
@@ -0,0 +1,50 @@
+// src/alarms/severity.test.ts
+import { describe, expect, it } from 'vitest';
+import { filterMatchers, filterRows, sortRows } from './filterRows';
+import { DEFAULT_SEVERITY_BANDS, normalizeBands, severityCounts, severityOf } from './severity';
+import type { Row } from './types';
+import { DEFAULT_FILTERS } from './viewState';
+
+const row = (id: string, priority: number, dateTimeISO: string): Row => ({
+  id, priority, dateTimeISO, site: 'S', point: id, value: '', unit: '', reconhecido: false, descartado: false,
+});
+
+describe('faixas de severidade', () => {
+  it('classifica pelos limites padrão (0–20 é crítico)', () => {
+    expect(severityOf(0).id).toBe('critico');
+    expect(severityOf(20).id).toBe('critico');
+    expect(severityOf(21).id).toBe('alto');
+    expect(severityOf(255).id).toBe('info');
+    expect(severityOf(999).id).toBe('info');
+  });
+
+  it('normaliza limites fora de ordem, cores inválidas e faixas sem espaço', () => {
+    const bands = normalizeBands([{ max: 50 }, { max: 10 }, { max: 300, color: 'red' }, { color: '#123456' }, { max: 1 }]);
+    expect(bands.map((b) => [b.min, b.max])).toEqual([[0, 50], [51, 51], [52, 253], [254, 254], [255, 255]]);
+    expect(bands[2].color).toBe(DEFAULT_SEVERITY_BANDS[2].color);
+    expect(bands[3].color).toBe('#123456');
+  });
+
+  it('sem configuração mantém o padrão', () => {
+    expect(normalizeBands([])).toEqual(DEFAULT_SEVERITY_BANDS);
+  });
+
+  it('conta por faixa, incluindo as vazias', () => {
+    const counts = severityCounts([5, 10, 90, 240]);
+    expect([...counts]).toEqual([['critico', 2], ['alto', 0], ['medio', 1], ['baixo', 0], ['info', 1]]);
+  });
+
+  it('filtra e ordena por severidade com a configuração informada', () => {
+    const bands = normalizeBands([{ max: 100 }]); // crítico passa a ir até 100
+    const rows = [
+      row('a', 150, '2026-03-10T10:00:00Z'),
+      row('b', 90, '2026-03-10T09:00:00Z'),
+      row('c', 5, '2026-03-10T11:00:00Z'),
+    ];
+    const f = { ...DEFAULT_FILTERS, severities: ['critico'] };
+    expect(filterRows(rows, f).map((r) => r.id)).toEqual(['c']); // padrão: 90 é médio
+    expect(filterRows(rows, f, filterMatchers(f, bands)).map((r) => r.id)).toEqual(['b', 'c']);
+    // mesma faixa: mais recente primeiro
+    expect(sortRows(rows, 'severity', 'asc', bands).map((r) => r.id)).toEqual(['c', 'b', 'a']);
+  });
+});
@@ -0,0 +1,81 @@
+// src/alarms/severity.ts
+import { t } from '../i18n/i18n';
+
+/* =========================================
+   Faixas de severidade sobre a prioridade Metasys (0 = mais crítico, 255 = menos)
+   Cinco faixas fixas e contíguas; o operador ajusta o limite superior e a
+   cor de cada uma (localStorage). Comandam a cor da linha, o selo, o filtro,
+   a ordenação por severidade e as contagens da barra de ferramentas.
+   ========================================= */
+export type SeverityId = 'critico' | 'alto' | 'medio' | 'baixo' | 'info';
+
+export type SeverityBand = {
+  id: SeverityId;       // nome exibido: severityLabel(id)
+  min: number;    // derivado do limite da faixa anterior
+  max: number;
+  color: string;  // #rrggbb
+};
+
+export const PRIORITY_MAX = 255;
+
+export const DEFAULT_SEVERITY_BANDS: SeverityBand[] = [
+  { id: 'critico', min: 0, max: 20, color: '#c62828' },
+  { id: 'alto', min: 21, max: 80, color: '#ef6c00' },
+  { id: 'medio', min: 81, max: 150, color: '#b8860b' },
+  { id: 'baixo', min: 151, max: 200, color: '#0399CC' },
+  { id: 'info', min: 201, max: PRIORITY_MAX, color: '#647084' },
+];
+
+export function severityLabel(id: SeverityId): string {
+  return t(`severity.${id}`);
+}
+
+const SEVERITY_KEY = 'alarms_severity';
+
+// Limites crescentes, sem buracos, cada faixa com ao menos uma prioridade; a última vai até 255
+export function normalizeBands(partial: Partial<Pick<SeverityBand, 'max' | 'color'>>[]): SeverityBand[] {
+  let min = 0;
+  return DEFAULT_SEVERITY_BANDS.map((def, i) => {
+    const last = i === DEFAULT_SEVERITY_BANDS.length - 1;
+    const left = DEFAULT_SEVERITY_BANDS.length - 1 - i; // faixas que ainda precisam de espaço
+    const wanted = Number(partial[i]?.max);
+    const clamped = Math.min(Math.max(Number.isFinite(wanted) ? Math.round(wanted) : def.max, min), PRIORITY_MAX - left);
+    const max = last ? PRIORITY_MAX : clamped;
+    const wantedColor = partial[i]?.color;
+    const color = wantedColor && /^#[0-9a-f]{6}$/i.test(wantedColor) ? wantedColor : def.color;
+    const band = { ...def, min, max, color };
+    min = max + 1;
+    return band;
+  });
+}
+
+export function loadSeverityBands(): SeverityBand[] {
+  try {
+    const raw = localStorage.getItem(SEVERITY_KEY);
+    if (raw) return normalizeBands(JSON.parse(raw) as SeverityBand[]);
+  } catch { /* configuração corrompida: usa o padrão */ }
+  return DEFAULT_SEVERITY_BANDS;
+}
+export function saveSeverityBands(bands: SeverityBand[]) {
+  try {
+    localStorage.setItem(SEVERITY_KEY, JSON.stringify(bands.map(({ id, max, color }) => ({ id, max, color }))));
+  } catch { /* sem storage */ }
+}
+
+// Prioridade fora de 0–255 (ou inválida) cai na faixa mais próxima
+export function severityOf(priority: number, bands: SeverityBand[] = DEFAULT_SEVERITY_BANDS): SeverityBand {
+  return bands.find((b) => priority <= b.max) ?? bands[bands.length - 1];
+}
+
+export function severityRank(priority: number, bands: SeverityBand[] = DEFAULT_SEVERITY_BANDS): number {
+  return bands.indexOf(severityOf(priority, bands));
+}
+
+export function severityCounts(priorities: number[], bands: SeverityBand[] = DEFAULT_SEVERITY_BANDS): Map<SeverityId, number> {
+  const counts = new Map<SeverityId, number>(bands.map((b) => [b.id, 0]));
+  for (const p of priorities) {
+    const id = severityOf(p, bands).id;
+    counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  return counts;
+}
@@ -0,0 +1,15 @@
+// src/alarms/types.ts
+
+// Linha da tabela — um alarme já mapeado do AlarmDTO.
+// Data e Sim/Não são formatados só na exibição, no idioma atual.
+export type Row = {
+  id: string;            // <- ID COMPOSTO: "<servidor>-<id original>"
+  dateTimeISO: string;
+  site: string;
+  point: string;
+  value: string;
+  unit: string;
+  priority: number;
+  reconhecido: boolean;
+  descartado: boolean;
+};
@@ -0,0 +1,28 @@
+// src/alarms/useAlarmFeed.ts
+import { useSyncExternalStore } from 'react';
+import { alarmFeed, type AlarmFeed, type FeedState } from './alarmFeed';
+import type { HealthMap } from '../lib/health';
+import type { Row } from './types';
+
+/* =========================================
+   Hooks do feed de alarmes
+   Montar qualquer um deles inscreve o componente (e liga o polling);
+   cada hook só re-renderiza quando a fatia que ele lê muda.
+   ========================================= */
+function useFeedSlice<T>(select: (s: FeedState) => T, feed: AlarmFeed): T {
+  return useSyncExternalStore(feed.subscribe, () => select(feed.getState()));
+}
+
+export function useAlarmFeed(feed: AlarmFeed = alarmFeed): FeedState {
+  return useFeedSlice((s) => s, feed);
+}
+
+export function useAlarmRows(feed: AlarmFeed = alarmFeed): Row[] {
+  return useFeedSlice((s) => s.rows, feed);
+}
+
+export function useServerHealth(feed: AlarmFeed = alarmFeed): { health: HealthMap; refreshedAt: number } {
+  const health = useFeedSlice((s) => s.health, feed);
+  const refreshedAt = useFeedSlice((s) => s.refreshedAt, feed);
+  return { health, refreshedAt };
+}
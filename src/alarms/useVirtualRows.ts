@@ -0,0 +1,92 @@
+// src/alarms/useVirtualRows.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+/* =========================================
+   Janela de renderização da tabela
+   Só as linhas na área visível (+ margem) viram <tr>; o resto vira dois
+   espaçadores com a altura somada. Alturas medidas ficam em cache por
+   chave; as ainda não medidas usam a estimativa de cada item.
+   ========================================= */
+const OVERSCAN_PX = 600;
+
+export type VirtualWindow = {
+  start: number;           // primeiro índice renderizado
+  end: number;             // exclusivo
+  padTop: number;          // px acima da janela
+  padBottom: number;       // px abaixo
+  scrollRef: (el: HTMLElement | null) => void;                      // no elemento que rola
+  measure: (key: string) => (el: HTMLElement | null) => void;       // em cada linha renderizada
+};
+
+// Último índice cujo topo é <= y
+function indexAt(offsets: Float64Array, y: number): number {
+  let lo = 0;
+  let hi = offsets.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= y) lo = mid; else hi = mid - 1;
+  }
+  return Math.max(0, lo);
+}
+
+// "estimate" precisa ser estável (função de módulo), senão os offsets são recalculados a cada render
+export function useVirtualRows<T extends { key: string }>(
+  items: T[],
+  estimate: (item: T) => number,
+): VirtualWindow {
+  const [scrollEl, setScrollEl] = useState<HTMLElement | null>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 800 });
+  const heights = useRef(new Map<string, number>());
+  const [version, setVersion] = useState(0);
+  const bumpScheduled = useRef(false);
+
+  useEffect(() => {
+    if (!scrollEl) return;
+    const update = () => setViewport({ top: scrollEl.scrollTop, height: scrollEl.clientHeight });
+    update();
+    scrollEl.addEventListener('scroll', update, { passive: true });
+    const ro = new ResizeObserver(update);
+    ro.observe(scrollEl);
+    return () => {
+      scrollEl.removeEventListener('scroll', update);
+      ro.disconnect();
+    };
+  }, [scrollEl]);
+
+  // offsets[i] = topo do item i; offsets[n] = altura total
+  const offsets = useMemo(() => {
+    void version; // remedir quando uma altura real mudar
+    const out = new Float64Array(items.length + 1);
+    for (let i = 0; i < items.length; i++) {
+      out[i + 1] = out[i] + (heights.current.get(items[i].key) ?? estimate(items[i]));
+    }
+    return out;
+  }, [items, estimate, version]);
+
+  // Várias medições no mesmo quadro viram um único recálculo
+  const measure = useCallback((key: string) => (el: HTMLElement | null) => {
+    if (!el) return;
+    const h = el.getBoundingClientRect().height;
+    if (h === 0 || heights.current.get(key) === h) return;
+    heights.current.set(key, h);
+    if (bumpScheduled.current) return;
+    bumpScheduled.current = true;
+    requestAnimationFrame(() => {
+      bumpScheduled.current = false;
+      setVersion((v) => v + 1);
+    });
+  }, []);
+
+  const total = offsets[items.length];
+  const start = items.length === 0 ? 0 : indexAt(offsets, viewport.top - OVERSCAN_PX);
+  const end = items.length === 0 ? 0 : indexAt(offsets, viewport.top + viewport.height + OVERSCAN_PX) + 1;
+
+  return {
+    start,
+    end,
+    padTop: offsets[start],
+    padBottom: total - offsets[end],
+    scrollRef: setScrollEl,
+    measure,
+  };
+}
@@ -0,0 +1,194 @@
+// src/alarms/viewState.ts
+import type { MessageKey } from '../i18n/i18n';
+
+/* =========================================
+   Estado da visão: filtros, ordenação e colunas visíveis.
+   Serializado na query string p/ links compartilháveis
+   (?site=AHU&ack=nao&sort=priority&dir=asc&cols=site,point,...).
+   ========================================= */
+export type SortKey =
+  | 'dateTime' | 'site' | 'point' | 'value' | 'unit' | 'priority' | 'severity' | 'reconhecido' | 'descartado';
+export type SortDir = 'asc' | 'desc';
+export type TriState = 'all' | 'sim' | 'nao';
+
+export type VisibleCols = {
+  dateTime: boolean;
+  site: boolean;
+  point: boolean;
+  value: boolean;
+  unit: boolean;
+  priority: boolean;
+  severity: boolean;
+  reconhecido: boolean;
+  descartado: boolean;
+  comentario: boolean;
+  acoes: boolean;
+};
+
+export const DEFAULT_COLS: VisibleCols = {
+  dateTime: true,
+  site: true,
+  point: true,
+  value: true,
+  unit: true,
+  priority: true,
+  severity: true,
+  reconhecido: true,
+  descartado: true,
+  comentario: true,
+  acoes: true,
+};
+
+export const COLUMN_LABELS: [keyof VisibleCols, MessageKey][] = [
+  ['dateTime', 'col.dateTime'],
+  ['site', 'col.site'],
+  ['point', 'col.point'],
+  ['value', 'col.value'],
+  ['unit', 'col.unit'],
+  ['priority', 'col.priority'],
+  ['severity', 'col.severity'],
+  ['reconhecido', 'col.reconhecido'],
+  ['descartado', 'col.descartado'],
+  ['comentario', 'col.comentario'],
+  ['acoes', 'col.acoes'],
+];
+
+// Texto aceita !negação e /regex/; prioridade aceita faixas e comparações (ver lib/filterExpr)
+export type Filters = {
+  search: string;   // busca global em todas as colunas
+  site: string;
+  sites: string[];  // seleção múltipla (vazio = todos)
+  point: string;
+  value: string;
+  units: string[];  // seleção múltipla (vazio = todas)
+  servers: string[]; // rótulos do registro de servidores (vazio = todos)
+  severities: string[]; // ids das faixas de severidade (vazio = todas)
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string;
+  priority: string;
+  ack: TriState;
+  disc: TriState;
+};
+
+export type ViewState = {
+  filters: Filters;
+  sortKey: SortKey;
+  sortDir: SortDir;
+  cols: VisibleCols;
+};
+
+export const DEFAULT_FILTERS: Filters = {
+  search: '',
+  site: '',
+  sites: [],
+  point: '',
+  value: '',
+  units: [],
+  servers: [],
+  severities: [],
+  dateFrom: '',
+  dateTo: '',
+  priority: '',
+  ack: 'all',
+  disc: 'all',
+};
+
+export const DEFAULT_SORT: { sortKey: SortKey; sortDir: SortDir } = { sortKey: 'dateTime', sortDir: 'desc' };
+
+// ----- Preferências de colunas (localStorage) -----
+const COLS_KEY = 'alarms_visible_cols';
+export function loadVisibleCols(): VisibleCols {
+  try {
+    const raw = localStorage.getItem(COLS_KEY);
+    // mescla com o padrão p/ colunas novas aparecerem em preferências antigas
+    if (raw) return { ...DEFAULT_COLS, ...(JSON.parse(raw) as Partial<VisibleCols>) };
+  } catch { /* preferências corrompidas: usa o padrão */ }
+  return { ...DEFAULT_COLS };
+}
+export function saveVisibleCols(cols: VisibleCols) {
+  try { localStorage.setItem(COLS_KEY, JSON.stringify(cols)); } catch { /* sem storage */ }
+}
+
+// ----- Query string -----
+type TextFilterKey = 'search' | 'site' | 'point' | 'value' | 'dateFrom' | 'dateTo' | 'priority';
+type ListFilterKey = 'sites' | 'units' | 'servers' | 'severities';
+
+// nome do parâmetro na URL -> campo de Filters
+const FILTER_PARAMS: [string, TextFilterKey][] = [
+  ['q', 'search'],
+  ['site', 'site'],
+  ['point', 'point'],
+  ['value', 'value'],
+  ['from', 'dateFrom'],
+  ['to', 'dateTo'],
+  ['priority', 'priority'],
+];
+// listas: um parâmetro repetido por item (?in_site=A&in_site=B)
+const LIST_PARAMS: [string, ListFilterKey][] = [
+  ['in_site', 'sites'],
+  ['in_unit', 'units'],
+  ['in_server', 'servers'],
+  ['in_sev', 'severities'],
+];
+const SORT_KEYS: SortKey[] = [
+  'dateTime', 'site', 'point', 'value', 'unit', 'priority', 'severity', 'reconhecido', 'descartado',
+];
+const TRI_STATES: TriState[] = ['all', 'sim', 'nao'];
+
+function sameCols(a: VisibleCols, b: VisibleCols): boolean {
+  return COLUMN_LABELS.every(([key]) => a[key] === b[key]);
+}
+
+// Só grava o que difere do padrão, p/ a URL ficar curta
+export function serializeViewState(state: ViewState): string {
+  const params = new URLSearchParams();
+  for (const [param, field] of FILTER_PARAMS) {
+    if (state.filters[field] !== DEFAULT_FILTERS[field]) params.set(param, state.filters[field]);
+  }
+  for (const [param, field] of LIST_PARAMS) {
+    for (const item of state.filters[field]) params.append(param, item);
+  }
+  if (state.filters.ack !== 'all') params.set('ack', state.filters.ack);
+  if (state.filters.disc !== 'all') params.set('disc', state.filters.disc);
+  if (state.sortKey !== DEFAULT_SORT.sortKey || state.sortDir !== DEFAULT_SORT.sortDir) {
+    params.set('sort', state.sortKey);
+    params.set('dir', state.sortDir);
+  }
+  if (!sameCols(state.cols, DEFAULT_COLS)) {
+    params.set('cols', COLUMN_LABELS.filter(([key]) => state.cols[key]).map(([key]) => key).join(','));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+// Valores inválidos na URL caem no padrão; "fallbackCols" vale quando não há ?cols
+export function parseViewState(search: string, fallbackCols: VisibleCols = DEFAULT_COLS): ViewState {
+  const params = new URLSearchParams(search);
+  const filters: Filters = { ...DEFAULT_FILTERS };
+  for (const [param, field] of FILTER_PARAMS) {
+    const v = params.get(param);
+    if (v !== null) filters[field] = v;
+  }
+  for (const [param, field] of LIST_PARAMS) filters[field] = params.getAll(param);
+  const ack = params.get('ack') as TriState | null;
+  const disc = params.get('disc') as TriState | null;
+  if (ack && TRI_STATES.includes(ack)) filters.ack = ack;
+  if (disc && TRI_STATES.includes(disc)) filters.disc = disc;
+
+  const sort = params.get('sort') as SortKey | null;
+  const dir = params.get('dir');
+  const colsParam = params.get('cols');
+  let cols = fallbackCols;
+  if (colsParam !== null) {
+    const shown = new Set(colsParam.split(','));
+    cols = { ...DEFAULT_COLS };
+    for (const [key] of COLUMN_LABELS) cols[key] = shown.has(key);
+  }
+
+  return {
+    filters,
+    sortKey: sort && SORT_KEYS.includes(sort) ? sort : DEFAULT_SORT.sortKey,
+    sortDir: dir === 'asc' || dir === 'desc' ? dir : DEFAULT_SORT.sortDir,
+    cols,
+  };
+}
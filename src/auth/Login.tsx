@@ -0,0 +1,115 @@
+// src/auth/Login.tsx
+import { useState } from 'react';
+import './Login.css';
+import { t } from '../i18n/i18n';
+import LanguageSelect from '../i18n/LanguageSelect';
+import { enabledServers } from '../lib/servers';
+import { signIn, type Credentials } from '../lib/auth';
+
+type Props = { onLoggedIn: () => void };
+
+export default function Login({ onLoggedIn }: Props) {
+  const servers = enabledServers();
+
+  // Credenciais comuns a todos os servidores, ou uma por servidor
+  const [shared, setShared] = useState<Credentials>({ username: '', password: '' });
+  const [perServer, setPerServer] = useState(false);
+  const [byServer, setByServer] = useState<Record<string, Credentials>>({});
+  const [busy, setBusy] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  function credsFor(name: string): Credentials {
+    return perServer ? byServer[name] ?? { username: '', password: '' } : shared;
+  }
+
+  function setServerField(name: string, field: keyof Credentials, value: string) {
+    setByServer((prev) => ({
+      ...prev,
+      [name]: { ...(prev[name] ?? { username: '', password: '' }), [field]: value },
+    }));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setErrors([]);
+    const results = await Promise.allSettled(servers.map((srv) => signIn(srv, credsFor(srv.name))));
+    const failures = results.flatMap((res, i) =>
+      res.status === 'rejected'
+        ? [`${servers[i].label}: ${res.reason instanceof Error ? res.reason.message : String(res.reason)}`]
+        : []
+    );
+    setBusy(false);
+
+    // Entra se ao menos um servidor autenticou; os demais aparecem como falha na nota de conexão
+    if (failures.length < servers.length) onLoggedIn();
+    else setErrors(failures);
+  }
+
+  return (
+    <div className="login-container">
+      <form className="login-panel" onSubmit={handleSubmit}>
+        <h2 className="login-title">Metasys Alarm Viewer</h2>
+
+        {!perServer && (
+          <>
+            <input
+              className="filter-input"
+              placeholder={t('login.username')}
+              autoComplete="username"
+              value={shared.username}
+              onChange={(e) => setShared({ ...shared, username: e.target.value })}
+            />
+            <input
+              className="filter-input"
+              type="password"
+              placeholder={t('login.password')}
+              autoComplete="current-password"
+              value={shared.password}
+              onChange={(e) => setShared({ ...shared, password: e.target.value })}
+            />
+          </>
+        )}
+
+        {perServer && servers.map((srv) => (
+          <fieldset key={srv.name} className="login-server">
+            <legend>{srv.label}</legend>
+            <input
+              className="filter-input"
+              placeholder={t('login.username')}
+              value={credsFor(srv.name).username}
+              onChange={(e) => setServerField(srv.name, 'username', e.target.value)}
+            />
+            <input
+              className="filter-input"
+              type="password"
+              placeholder={t('login.password')}
+              value={credsFor(srv.name).password}
+              onChange={(e) => setServerField(srv.name, 'password', e.target.value)}
+            />
+          </fieldset>
+        ))}
+
+        {servers.length > 1 && (
+          <label className="auto-toggle">
+            <input
+              type="checkbox"
+              checked={perServer}
+              onChange={(e) => setPerServer(e.target.checked)}
+            />
+            {t('login.perServer')}
+          </label>
+        )}
+
+        <button type="submit" className="btn-refresh" disabled={busy || servers.length === 0}>
+          {busy ? t('login.busy') : t('login.submit')}
+        </button>
+
+        {servers.length === 0 && <p className="login-error">{t('login.noServers')}</p>}
+        {errors.map((msg) => <p key={msg} className="login-error">{msg}</p>)}
+
+        <LanguageSelect />
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+// src/i18n/LanguageSelect.tsx
+import { LOCALES, setLocale, t, type Locale } from './i18n';
+import { useLocale } from './useLocale';
+
+// Nome de cada idioma sempre na própria língua
+export default function LanguageSelect() {
+  const locale = useLocale();
+  return (
+    <select
+      className="filter-select"
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      title={t('language.title')}
+    >
+      {LOCALES.map(([key, label]) => (
+        <option key={key} value={key}>{label}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,349 @@
+// src/i18n/en.ts
+import type { MessageKey } from './pt-BR';
+
+const en: Record<MessageKey, string> = {
+  // ----- Comuns -----
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.all': 'All',
+  'common.empty': '(empty)',
+  'common.clear': 'Clear',
+  'common.remove': 'Remove',
+  'common.loading': 'Loading…',
+  'language.title': 'Language',
+
+  // ----- Colunas e campos -----
+  'col.dateTime': 'Date - Time',
+  'col.site': 'Site',
+  'col.point': 'Point',
+  'col.value': 'Value',
+  'col.unit': 'Unit',
+  'col.priority': 'Priority',
+  'col.severity': 'Severity',
+  'col.reconhecido': 'Acknowledged',
+  'col.descartado': 'Discarded',
+  'col.comentario': 'Comment',
+  'col.acoes': 'Actions',
+  'col.server': 'Server',
+  'col.firstSeen': 'First seen',
+  'col.lastSeen': 'Last seen',
+  'col.clearedAt': 'Cleared at',
+  'col.author': 'Author',
+  'col.alarm': 'Alarm',
+  'col.note': 'Note',
+  'col.active': 'Active',
+
+  // ----- Severidade -----
+  'severity.critico': 'Critical',
+  'severity.alto': 'High',
+  'severity.medio': 'Medium',
+  'severity.baixo': 'Low',
+  'severity.info': 'Info',
+  'severity.color': 'Color',
+  'severity.from': 'Priority from',
+  'severity.to': 'to',
+  'severity.reset': 'Restore defaults',
+  'severity.chipTitle': 'Priority {min}–{max} — click to filter',
+
+  // ----- Agrupamento e unidades -----
+  'group.none': 'No grouping',
+  'group.option': 'Group: {label}',
+  'group.title': 'Group rows',
+  'group.meta': '{count} alarm(s) · newest {newest} · max. priority {top}',
+  'group.selectTitle': 'Select the group',
+  'group.dedupe': 'Merge repeats',
+  'group.dedupeTitle': 'Shows repeated alarms of the same point as a single row',
+  'group.repeatsTitle': 'Show/hide the repeated occurrences',
+  'units.original': 'As in Metasys',
+  'units.si': 'Metric (°C, kPa, m³/h)',
+  'units.us': 'Imperial (°F, psi, CFM)',
+  'units.option': 'Units: {label}',
+  'units.title': 'Converts values to the chosen unit system',
+  'unit.degreeDaysCelsius': 'DD °C',
+  'unit.degreeDaysFahrenheit': 'DD °F',
+  'unit.powerFactor': 'PF',
+  'unit.days': 'days',
+  'unit.weeks': 'weeks',
+  'unit.months': 'months',
+  'unit.years': 'years',
+
+  // ----- Barra de ferramentas -----
+  'refresh.button': 'Refresh alarms',
+  'refresh.countdown': 'Refresh alarms ({seconds}s)',
+  'refresh.loading': 'Refreshing…',
+  'refresh.live': '● Live',
+  'toolbar.auto': 'Auto (1 min)',
+  'filter.search': 'Search all columns',
+  'filter.site': 'Filter by Site',
+  'filter.point': 'Filter by Point',
+  'filter.value': 'Filter by Value',
+  'filter.sites': 'Sites',
+  'filter.units': 'Units',
+  'filter.servers': 'Servers',
+  'filter.textHelp': 'Contains the text · !text = does not contain · /regex/ = regular expression · !/regex/ = does not match',
+  'filter.dateFrom': 'Date: From',
+  'filter.dateTo': 'Date: To',
+  'filter.priority': 'Priority',
+  'filter.priorityHelp': 'Priority (e.g. 10 · 0-50 · <=50 · >200 · 0-20, 200)',
+  'filter.ackAll': 'Acknowledged: All',
+  'filter.ackYes': 'Acknowledged: Yes',
+  'filter.ackNo': 'Acknowledged: No',
+  'filter.discAll': 'Discarded: All',
+  'filter.discYes': 'Discarded: Yes',
+  'filter.discNo': 'Discarded: No',
+  'filter.clear': 'Clear filters',
+  'filter.badRegex': 'Invalid regular expression: {expr}',
+  'filter.badTerm': 'Invalid term: {term}',
+  'multi.some': '{count} selected',
+  'multi.clear': 'Clear selection',
+  'source.title': 'Alarm source',
+  'source.live': 'Source: Live',
+  'source.history': 'Source: Local history',
+  'history.retention': 'Retention',
+  'history.retentionDays': 'days',
+  'history.retentionTitle': 'Records not read for longer than this are deleted',
+  'toolbar.error': 'Error: {message}',
+  'toolbar.commentsError': 'Comments: {message}',
+  'toolbar.historyError': 'History: {message}',
+  'toolbar.total': 'Total: {count}',
+  'toolbar.points': ' ({count} points)',
+  'toolbar.new': '{count} new',
+  'toolbar.markSeen': 'Mark all as seen',
+  'toolbar.notifications': 'Notifications',
+  'toolbar.severity': 'Severity',
+  'toolbar.mute': 'Mute',
+  'toolbar.muteTitle': 'Silences sound and notifications for every rule',
+  'toolbar.viewTable': 'Table',
+  'toolbar.viewDashboard': 'Analysis',
+  'toolbar.viewShift': 'Shift handover',
+  'toolbar.print': 'Print / PDF',
+  'toolbar.kiosk': 'Kiosk',
+  'toolbar.kioskTitle': 'Wall display (full screen, automatic pages)',
+  'toolbar.logout': 'Log out',
+  'toolbar.servers': 'Servers',
+  'bulk.selected': 'Selected: {count}',
+  'bulk.annotation': 'Annotation (optional)',
+  'bulk.acknowledge': 'Acknowledge selected',
+  'bulk.discard': 'Discard selected',
+  'bulk.failed': '{failed} of {total} alarm(s) not updated — {message}',
+
+  // ----- Tabela -----
+  'table.selectAll': 'Select all visible',
+  'table.empty': 'No alarms found.',
+  'table.notesTitle': 'Note history',
+  'table.new': 'New',
+  'table.acknowledge': 'Acknowledge',
+  'table.discard': 'Discard',
+  'table.stale': 'Stale data — {servers}. Rows from these servers may not reflect the current state.',
+  'table.staleServer': '{server}: last successful read at {time}',
+  'table.cleared': 'Recently cleared ({count})',
+  'history.change': '{at} {field}: {from} → {to}',
+
+  // ----- Comentários -----
+  'comments.empty': 'No notes yet.',
+  'comments.placeholder': 'Write a note…',
+  'comments.saving': 'Saving…',
+  'comments.add': 'Add note',
+  'comments.loadFailed': 'Failed to load comments',
+  'comments.saveFailed': 'Failed to save comment',
+  'comments.migrateFailed': 'Failed to migrate comments',
+
+  // ----- Detalhe do alarme -----
+  'detail.label': 'Alarm detail',
+  'detail.close': 'Close (Esc)',
+  'detail.trigger': 'Trigger',
+  'detail.pointNow': 'Point now',
+  'detail.reload': 'Reload',
+  'detail.reading': 'Reading…',
+  'detail.unknownServer': 'Originating server is not in the registry.',
+  'detail.earlier': 'Earlier occurrences ({count})',
+  'detail.noEarlier': 'No other occurrence of this point in the loaded rows.',
+  'detail.open': 'Open this occurrence',
+  'detail.notes': 'Notes',
+  'attr.description': 'Description',
+  'attr.objectType': 'Type',
+  'attr.status': 'Status',
+  'attr.reliability': 'Reliability',
+  'attr.outOfService': 'Out of service',
+  'attr.highAlarmLimit': 'High limit',
+  'attr.lowAlarmLimit': 'Low limit',
+  'attr.maxPresValue': 'Maximum',
+  'attr.minPresValue': 'Minimum',
+  'attr.alarmState': 'Alarm state',
+  'attr.timeDelay': 'Delay (s)',
+  'attr.deadband': 'Deadband',
+
+  // ----- Passagem de turno -----
+  'shift.from': 'From',
+  'shift.to': 'To',
+  'shift.count': 'Notes: {count}',
+  'shift.empty': 'No notes in this period.',
+
+  // ----- Análise -----
+  'dashboard.count': 'Alarms analyzed: {count}',
+  'dashboard.byHour': 'By hour',
+  'dashboard.byDay': 'By day',
+  'dashboard.perHour': 'Alarms per hour',
+  'dashboard.perDay': 'Alarms per day',
+  'dashboard.bySeverity': 'By severity',
+  'dashboard.byServer': 'By server',
+  'dashboard.ack': 'Acknowledged vs. unacknowledged',
+  'dashboard.topSites': 'Top {n} sites',
+  'dashboard.topPoints': 'Top {n} points',
+  'dashboard.noData': 'No data.',
+  'dashboard.barTitle': '{label}: {value} — click to filter',
+  'dashboard.hourLabel': '{day} {hour}h',
+  'analytics.acked': 'Acknowledged',
+  'analytics.notAcked': 'Unacknowledged',
+
+  // ----- Notificações -----
+  'notify.active': 'Active',
+  'notify.name': 'Name',
+  'notify.maxPriority': 'Priority ≤',
+  'notify.sound': 'Sound',
+  'notify.desktop': 'Desktop',
+  'notify.snooze': 'Snooze',
+  'notify.anyPattern': 'any (accepts *)',
+  'notify.snoozedUntil': 'until {time} ✕',
+  'notify.addRule': 'Add rule',
+  'notify.newRule': 'New rule',
+  'notify.defaultRule': 'Critical (0–20)',
+  'notify.title': '{rule}: {count} new alarm(s)',
+  'notify.body': '{point} — {site} (priority {priority})',
+
+  // ----- Visões salvas -----
+  'views.title': 'Saved views',
+  'views.placeholder': 'Saved views…',
+  'views.save': 'Save view',
+  'views.rename': 'Rename',
+  'views.delete': 'Delete',
+  'views.setDefault': 'Make default',
+  'views.unsetDefault': 'Remove default',
+  'views.export': 'Export',
+  'views.import': 'Import',
+  'views.namePrompt': 'View name:',
+  'views.renamePrompt': 'New name:',
+  'views.deleteConfirm': 'Delete the view "{name}"?',
+  'views.fileName': 'alarmboard-views.json',
+  'views.badFile': 'File is not an AlarmBoard view export',
+
+  // ----- Saúde dos servidores -----
+  'health.state': 'State',
+  'health.lastOk': 'Last successful read',
+  'health.latency': 'Response',
+  'health.alarms': 'Alarms',
+  'health.lastError': 'Last error',
+  'health.http': 'HTTP',
+  'health.failures': 'Consecutive failures',
+  'health.nextRetry': 'Next retry',
+  'health.retryAll': 'Retry all now',
+  'health.waiting': 'Waiting',
+  'health.failing': 'Failing',
+  'health.stale': 'Stale',
+  'health.ok': 'Ok',
+
+  // ----- Feed e conexões -----
+  'feed.noServers': 'No server enabled',
+  'feed.connected': 'Connected ({counts})',
+  'feed.partial': 'Partial — ok: {ok} / failed: {failed}{waiting}',
+  'feed.allFailed': 'All connections failed{waiting}',
+  'feed.waiting': ' · waiting to retry: {servers}',
+  'feed.truncated': 'List truncated — {list}',
+  'feed.truncatedItem': '{server} {count} of {total}',
+  'feed.unknownError': 'Unknown error',
+  'feed.live': 'Live ({counts})',
+  'feed.liveFailed': 'Live — failed: {servers}',
+  'feed.streamFallback': '{reason} — querying the servers directly',
+  'feed.streamUnavailable': 'Live stream unavailable',
+  'feed.unknownServer': 'Unknown originating server ({id})',
+
+  // ----- Cliente Metasys e sessão -----
+  'api.loginFailed': 'Login failed {apiBase}',
+  'api.noToken': 'Login {apiBase} returned no accessToken',
+  'api.alarmsFailed': 'Failed to fetch alarms {apiBase}',
+  'api.acknowledgeFailed': 'Failed to acknowledge alarm {apiBase}',
+  'api.discardFailed': 'Failed to discard alarm {apiBase}',
+  'api.objectNotFound': 'Object not found {ref}',
+  'api.objectFailed': 'Failed to read the object {apiBase}',
+  'auth.noCredentials': 'No credentials for {server}',
+
+  // ----- Login -----
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.perServer': 'Different credentials per server',
+  'login.submit': 'Sign in',
+  'login.busy': 'Signing in…',
+  'login.noServers': 'No server enabled.',
+
+  // ----- Exportação -----
+  'export.filePrefix': 'alarms',
+  'export.sheet': 'Alarms',
+  'export.reportTitle': 'Alarm report — {at}',
+  'export.popupBlocked': 'The browser blocked the print window',
+
+  // ----- Quiosque -----
+  'kiosk.allAlarms': 'All alarms',
+  'kiosk.meta': '{count} alarm(s) · page {page}/{pages}',
+  'kiosk.viewOf': ' · view {view}/{views}',
+  'kiosk.empty': 'No alarms in this view',
+  'kiosk.exit': 'Back to the table (Esc)',
+
+  // ----- Estados enumerados Metasys ("enum.<conjunto>.<membro>") -----
+  'enum.alarmValueEnumSet.avNormal': 'Normal',
+  'enum.alarmValueEnumSet.avAlarm': 'Alarm',
+  'enum.alarmValueEnumSet.avHighAlarm': 'High alarm',
+  'enum.alarmValueEnumSet.avLowAlarm': 'Low alarm',
+  'enum.alarmValueEnumSet.avHighWarning': 'High warning',
+  'enum.alarmValueEnumSet.avLowWarning': 'Low warning',
+  'enum.alarmValueEnumSet.avFault': 'Fault',
+  'enum.alarmValueEnumSet.avOffline': 'Offline',
+  'enum.alarmValueEnumSet.avOnline': 'Online',
+  'enum.alarmValueEnumSet.avTrouble': 'Trouble',
+  'enum.alarmValueEnumSet.avUnreliable': 'Unreliable',
+  'enum.alarmValueEnumSet.avShutdown': 'Shutdown',
+  'enum.alarmValueEnumSet.avRefresh': 'Refresh',
+  'enum.alarmValueEnumSet.avChangeOfState': 'Change of state',
+  'enum.normalAlarmEnumSet.naNormal': 'Normal',
+  'enum.normalAlarmEnumSet.naAlarm': 'Alarm',
+  'enum.normalAlarm2EnumSet.na2Normal': 'Normal',
+  'enum.normalAlarm2EnumSet.na2Alarm': 'Alarm',
+  'enum.offonEnumSet.off': 'Off',
+  'enum.offonEnumSet.on': 'On',
+  'enum.offOnEnumSet.off': 'Off',
+  'enum.offOnEnumSet.on': 'On',
+  'enum.binarypvEnumSet.bacbinInactive': 'Inactive',
+  'enum.binarypvEnumSet.bacbinActive': 'Active',
+  'enum.openCloseEnumSet.open': 'Open',
+  'enum.openCloseEnumSet.closed': 'Closed',
+  'enum.noYesEnumSet.no': 'No',
+  'enum.noYesEnumSet.yes': 'Yes',
+  'enum.falseTrueEnumSet.false': 'False',
+  'enum.falseTrueEnumSet.true': 'True',
+  'enum.statusEnumSet.normal': 'Normal',
+  'enum.statusEnumSet.alarm': 'Alarm',
+  'enum.statusEnumSet.fault': 'Fault',
+  'enum.statusEnumSet.offline': 'Offline',
+  'enum.statusEnumSet.overridden': 'Overridden',
+  'enum.statusEnumSet.trouble': 'Trouble',
+  'enum.reliabilityEnumSet.noFaultDetected': 'No fault detected',
+  'enum.reliabilityEnumSet.noSensor': 'No sensor',
+  'enum.reliabilityEnumSet.overRange': 'Over range',
+  'enum.reliabilityEnumSet.underRange': 'Under range',
+  'enum.reliabilityEnumSet.openLoop': 'Open loop',
+  'enum.reliabilityEnumSet.shortedLoop': 'Shorted loop',
+  'enum.reliabilityEnumSet.noOutput': 'No output',
+  'enum.reliabilityEnumSet.unreliableOther': 'Unreliable',
+  'enum.reliabilityEnumSet.processError': 'Process error',
+  'enum.reliabilityEnumSet.communicationFailure': 'Communication failure',
+  'enum.objectTypeEnumSet.aiClass': 'Analog input',
+  'enum.objectTypeEnumSet.aoClass': 'Analog output',
+  'enum.objectTypeEnumSet.avClass': 'Analog value',
+  'enum.objectTypeEnumSet.biClass': 'Binary input',
+  'enum.objectTypeEnumSet.boClass': 'Binary output',
+  'enum.objectTypeEnumSet.bvClass': 'Binary value',
+  'enum.objectTypeEnumSet.msiClass': 'Multistate input',
+  'enum.objectTypeEnumSet.msoClass': 'Multistate output',
+  'enum.objectTypeEnumSet.msvClass': 'Multistate value',
+};
+
+export default en;
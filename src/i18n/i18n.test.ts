@@ -0,0 +1,44 @@
+// src/i18n/i18n.test.ts
+import { afterEach, describe, expect, it } from 'vitest';
+import { enumLabel } from '../lib/metasysEnums';
+import en from './en';
+import { formatNumber, getLocale, setLocale, t, yesNo } from './i18n';
+import ptBR from './pt-BR';
+
+describe('catálogos', () => {
+  it('en tem exatamente as chaves de pt-BR', () => {
+    expect(Object.keys(en).sort()).toEqual(Object.keys(ptBR).sort());
+  });
+
+  it('os mesmos parâmetros {nome} nos dois idiomas', () => {
+    const params = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+    for (const key of Object.keys(ptBR) as (keyof typeof ptBR)[]) {
+      expect(params(en[key]), key).toEqual(params(ptBR[key]));
+    }
+  });
+});
+
+describe('t', () => {
+  afterEach(() => setLocale('pt-BR'));
+
+  it('pt-BR por padrão, com interpolação', () => {
+    expect(getLocale()).toBe('pt-BR');
+    expect(t('kiosk.meta', { count: 3, page: 1, pages: 2 })).toBe('3 alarme(s) · página 1/2');
+    expect(yesNo(true)).toBe('Sim');
+  });
+
+  it('parâmetro ausente fica como está', () => {
+    expect(t('feed.connected')).toBe('Conectado ({counts})');
+  });
+
+  it('trocar o idioma muda textos, enums e números', () => {
+    setLocale('en');
+    expect(t('feed.connected', { counts: 'Srv 1: 3' })).toBe('Connected (Srv 1: 3)');
+    expect(yesNo(false)).toBe('No');
+    expect(enumLabel('offonEnumSet.on')).toBe('On');
+    expect(formatNumber(1234.5)).toBe('1,234.5');
+    setLocale('pt-BR');
+    expect(enumLabel('offonEnumSet.on')).toBe('Ligado');
+    expect(formatNumber(1234.5)).toBe('1.234,5');
+  });
+});
@@ -0,0 +1,79 @@
+// src/i18n/i18n.ts
+import en from './en';
+import ptBR, { type MessageKey } from './pt-BR';
+
+/* =========================================
+   Idioma da interface (pt-BR | en)
+   Catálogos planos por chave (pt-BR.ts é a referência); "{nome}" no texto
+   é trocado pelo parâmetro de mesmo nome. Datas e números seguem o idioma.
+   A escolha fica no localStorage; sem escolha, pt-BR. Sem DOM aqui: o
+   relay (Node) usa as mensagens de api.ts; o <html lang> é do App.
+   ========================================= */
+export type Locale = 'pt-BR' | 'en';
+export type { MessageKey };
+
+export const LOCALES: [Locale, string][] = [
+  ['pt-BR', 'Português'],
+  ['en', 'English'],
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { 'pt-BR': ptBR, en };
+
+const LOCALE_KEY = 'alarms_locale';
+
+function loadLocale(): Locale {
+  try {
+    const raw = localStorage.getItem(LOCALE_KEY);
+    if (raw === 'pt-BR' || raw === 'en') return raw;
+  } catch { /* sem storage (ex.: relay no Node) */ }
+  return 'pt-BR';
+}
+
+let current: Locale = loadLocale();
+const listeners = new Set<() => void>();
+
+export function getLocale(): Locale {
+  return current;
+}
+
+export function setLocale(locale: Locale) {
+  if (locale === current) return;
+  current = locale;
+  try { localStorage.setItem(LOCALE_KEY, locale); } catch { /* sem storage */ }
+  for (const fn of listeners) fn();
+}
+
+export function subscribeLocale(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => { listeners.delete(fn); };
+}
+
+export function hasMessage(key: string): key is MessageKey {
+  return key in ptBR;
+}
+
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  const text = CATALOGS[current][key] ?? ptBR[key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (whole, name: string) => (name in params ? String(params[name]) : whole));
+}
+
+export const yesNo = (v: boolean) => t(v ? 'common.yes' : 'common.no');
+
+// ----- Datas e números no idioma atual -----
+export function formatDateTime(iso: string | number): string {
+  return new Date(iso).toLocaleString(current, {
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  });
+}
+
+export function formatTime(at: string | number, seconds = true): string {
+  return new Date(at).toLocaleTimeString(current, seconds
+    ? { hour: '2-digit', minute: '2-digit', second: '2-digit' }
+    : { hour: '2-digit', minute: '2-digit' });
+}
+
+export function formatNumber(n: number, options?: Intl.NumberFormatOptions): string {
+  return n.toLocaleString(current, options);
+}
@@ -0,0 +1,351 @@
+// src/i18n/pt-BR.ts
+
+// Catálogo de referência: as chaves daqui são as de todos os idiomas (MessageKey)
+const ptBR = {
+  // ----- Comuns -----
+  'common.yes': 'Sim',
+  'common.no': 'Não',
+  'common.all': 'Todos',
+  'common.empty': '(vazio)',
+  'common.clear': 'Limpar',
+  'common.remove': 'Remover',
+  'common.loading': 'Carregando…',
+  'language.title': 'Idioma',
+
+  // ----- Colunas e campos -----
+  'col.dateTime': 'Data - Hora',
+  'col.site': 'Site',
+  'col.point': 'Ponto',
+  'col.value': 'Valor',
+  'col.unit': 'Unidade',
+  'col.priority': 'Prioridade',
+  'col.severity': 'Severidade',
+  'col.reconhecido': 'Reconhecido',
+  'col.descartado': 'Descartado',
+  'col.comentario': 'Comentário',
+  'col.acoes': 'Ações',
+  'col.server': 'Servidor',
+  'col.firstSeen': 'Primeira vez',
+  'col.lastSeen': 'Última vez',
+  'col.clearedAt': 'Normalizado em',
+  'col.author': 'Autor',
+  'col.alarm': 'Alarme',
+  'col.note': 'Nota',
+  'col.active': 'Ativo',
+
+  // ----- Severidade -----
+  'severity.critico': 'Crítico',
+  'severity.alto': 'Alto',
+  'severity.medio': 'Médio',
+  'severity.baixo': 'Baixo',
+  'severity.info': 'Informativo',
+  'severity.color': 'Cor',
+  'severity.from': 'Prioridade de',
+  'severity.to': 'até',
+  'severity.reset': 'Restaurar padrão',
+  'severity.chipTitle': 'Prioridade {min}–{max} — clique p/ filtrar',
+
+  // ----- Agrupamento e unidades -----
+  'group.none': 'Sem agrupamento',
+  'group.option': 'Agrupar: {label}',
+  'group.title': 'Agrupar linhas',
+  'group.meta': '{count} alarme(s) · mais recente {newest} · prioridade máx. {top}',
+  'group.selectTitle': 'Selecionar o grupo',
+  'group.dedupe': 'Juntar repetidos',
+  'group.dedupeTitle': 'Junta alarmes repetidos do mesmo ponto numa linha só',
+  'group.repeatsTitle': 'Mostrar/ocultar as ocorrências repetidas',
+  'units.original': 'Como no Metasys',
+  'units.si': 'Métricas (°C, kPa, m³/h)',
+  'units.us': 'Imperiais (°F, psi, CFM)',
+  'units.option': 'Unidades: {label}',
+  'units.title': 'Converte os valores p/ o sistema de unidades escolhido',
+  'unit.degreeDaysCelsius': 'GD °C',
+  'unit.degreeDaysFahrenheit': 'GD °F',
+  'unit.powerFactor': 'FP',
+  'unit.days': 'dias',
+  'unit.weeks': 'semanas',
+  'unit.months': 'meses',
+  'unit.years': 'anos',
+
+  // ----- Barra de ferramentas -----
+  'refresh.button': 'Atualizar alarmes',
+  'refresh.countdown': 'Atualizar alarmes ({seconds}s)',
+  'refresh.loading': 'Atualizando…',
+  'refresh.live': '● Ao vivo',
+  'toolbar.auto': 'Auto (1 min)',
+  'filter.search': 'Buscar em todas as colunas',
+  'filter.site': 'Filtro por Site',
+  'filter.point': 'Filtro por Ponto',
+  'filter.value': 'Filtro por Valor',
+  'filter.sites': 'Sites',
+  'filter.units': 'Unidades',
+  'filter.servers': 'Servidores',
+  'filter.textHelp': 'Contém o texto · !texto = não contém · /regex/ = expressão regular · !/regex/ = não casa',
+  'filter.dateFrom': 'Data: De',
+  'filter.dateTo': 'Data: Até',
+  'filter.priority': 'Prioridade',
+  'filter.priorityHelp': 'Prioridade (ex: 10 · 0-50 · <=50 · >200 · 0-20, 200)',
+  'filter.ackAll': 'Reconhecido: Todos',
+  'filter.ackYes': 'Reconhecido: Sim',
+  'filter.ackNo': 'Reconhecido: Não',
+  'filter.discAll': 'Descartado: Todos',
+  'filter.discYes': 'Descartado: Sim',
+  'filter.discNo': 'Descartado: Não',
+  'filter.clear': 'Limpar filtros',
+  'filter.badRegex': 'Expressão regular inválida: {expr}',
+  'filter.badTerm': 'Termo inválido: {term}',
+  'multi.some': '{count} selecionados',
+  'multi.clear': 'Limpar seleção',
+  'source.title': 'Fonte dos alarmes',
+  'source.live': 'Fonte: Ao vivo',
+  'source.history': 'Fonte: Histórico local',
+  'history.retention': 'Retenção',
+  'history.retentionDays': 'dias',
+  'history.retentionTitle': 'Registros sem leitura há mais tempo que isso são apagados',
+  'toolbar.error': 'Erro: {message}',
+  'toolbar.commentsError': 'Comentários: {message}',
+  'toolbar.historyError': 'Histórico: {message}',
+  'toolbar.total': 'Total: {count}',
+  'toolbar.points': ' ({count} pontos)',
+  'toolbar.new': '{count} novo(s)',
+  'toolbar.markSeen': 'Marcar todos como vistos',
+  'toolbar.notifications': 'Notificações',
+  'toolbar.severity': 'Severidade',
+  'toolbar.mute': 'Mudo',
+  'toolbar.muteTitle': 'Silencia som e notificações de todas as regras',
+  'toolbar.viewTable': 'Tabela',
+  'toolbar.viewDashboard': 'Análise',
+  'toolbar.viewShift': 'Passagem de turno',
+  'toolbar.print': 'Imprimir / PDF',
+  'toolbar.kiosk': 'Quiosque',
+  'toolbar.kioskTitle': 'Painel de parede (tela cheia, páginas automáticas)',
+  'toolbar.logout': 'Sair',
+  'toolbar.servers': 'Servidores',
+  'bulk.selected': 'Selecionados: {count}',
+  'bulk.annotation': 'Anotação (opcional)',
+  'bulk.acknowledge': 'Reconhecer selecionados',
+  'bulk.discard': 'Descartar selecionados',
+  'bulk.failed': '{failed} de {total} alarme(s) não atualizados — {message}',
+
+  // ----- Tabela -----
+  'table.selectAll': 'Selecionar todos os visíveis',
+  'table.empty': 'Nenhum alarme encontrado.',
+  'table.notesTitle': 'Histórico de notas',
+  'table.new': 'Novo',
+  'table.acknowledge': 'Reconhecer',
+  'table.discard': 'Descartar',
+  'table.stale': 'Dados desatualizados — {servers}. As linhas desses servidores podem não refletir o estado atual.',
+  'table.staleServer': '{server}: última leitura ok às {time}',
+  'table.cleared': 'Recentemente normalizados ({count})',
+  'history.change': '{at} {field}: {from} → {to}',
+
+  // ----- Comentários -----
+  'comments.empty': 'Nenhuma nota ainda.',
+  'comments.placeholder': 'Escreva uma nota…',
+  'comments.saving': 'Salvando…',
+  'comments.add': 'Adicionar nota',
+  'comments.loadFailed': 'Falha ao carregar comentários',
+  'comments.saveFailed': 'Falha ao salvar comentário',
+  'comments.migrateFailed': 'Falha ao migrar comentários',
+
+  // ----- Detalhe do alarme -----
+  'detail.label': 'Detalhe do alarme',
+  'detail.close': 'Fechar (Esc)',
+  'detail.trigger': 'Disparo',
+  'detail.pointNow': 'Ponto agora',
+  'detail.reload': 'Reler',
+  'detail.reading': 'Lendo…',
+  'detail.unknownServer': 'Servidor de origem fora do registro.',
+  'detail.earlier': 'Ocorrências anteriores ({count})',
+  'detail.noEarlier': 'Nenhuma outra ocorrência deste ponto nas linhas carregadas.',
+  'detail.open': 'Abrir esta ocorrência',
+  'detail.notes': 'Notas',
+  'attr.description': 'Descrição',
+  'attr.objectType': 'Tipo',
+  'attr.status': 'Status',
+  'attr.reliability': 'Confiabilidade',
+  'attr.outOfService': 'Fora de serviço',
+  'attr.highAlarmLimit': 'Limite alto',
+  'attr.lowAlarmLimit': 'Limite baixo',
+  'attr.maxPresValue': 'Máximo',
+  'attr.minPresValue': 'Mínimo',
+  'attr.alarmState': 'Estado de alarme',
+  'attr.timeDelay': 'Atraso (s)',
+  'attr.deadband': 'Banda morta',
+
+  // ----- Passagem de turno -----
+  'shift.from': 'De',
+  'shift.to': 'Até',
+  'shift.count': 'Notas: {count}',
+  'shift.empty': 'Nenhuma nota no período.',
+
+  // ----- Análise -----
+  'dashboard.count': 'Alarmes analisados: {count}',
+  'dashboard.byHour': 'Por hora',
+  'dashboard.byDay': 'Por dia',
+  'dashboard.perHour': 'Alarmes por hora',
+  'dashboard.perDay': 'Alarmes por dia',
+  'dashboard.bySeverity': 'Por severidade',
+  'dashboard.byServer': 'Por servidor',
+  'dashboard.ack': 'Reconhecidos x não reconhecidos',
+  'dashboard.topSites': 'Top {n} sites',
+  'dashboard.topPoints': 'Top {n} pontos',
+  'dashboard.noData': 'Sem dados.',
+  'dashboard.barTitle': '{label}: {value} — clique p/ filtrar',
+  'dashboard.hourLabel': '{day} {hour}h',
+  'analytics.acked': 'Reconhecidos',
+  'analytics.notAcked': 'Não reconhecidos',
+
+  // ----- Notificações -----
+  'notify.active': 'Ativa',
+  'notify.name': 'Nome',
+  'notify.maxPriority': 'Prioridade ≤',
+  'notify.sound': 'Som',
+  'notify.desktop': 'Desktop',
+  'notify.snooze': 'Silenciar',
+  'notify.anyPattern': 'qualquer (aceita *)',
+  'notify.snoozedUntil': 'até {time} ✕',
+  'notify.addRule': 'Adicionar regra',
+  'notify.newRule': 'Nova regra',
+  'notify.defaultRule': 'Críticos (0–20)',
+  'notify.title': '{rule}: {count} novo(s) alarme(s)',
+  'notify.body': '{point} — {site} (prioridade {priority})',
+
+  // ----- Visões salvas -----
+  'views.title': 'Visões salvas',
+  'views.placeholder': 'Visões salvas…',
+  'views.save': 'Salvar visão',
+  'views.rename': 'Renomear',
+  'views.delete': 'Excluir',
+  'views.setDefault': 'Tornar padrão',
+  'views.unsetDefault': 'Remover padrão',
+  'views.export': 'Exportar',
+  'views.import': 'Importar',
+  'views.namePrompt': 'Nome da visão:',
+  'views.renamePrompt': 'Novo nome:',
+  'views.deleteConfirm': 'Excluir a visão "{name}"?',
+  'views.fileName': 'alarmboard-visoes.json',
+  'views.badFile': 'Arquivo não é uma exportação de visões do AlarmBoard',
+
+  // ----- Saúde dos servidores -----
+  'health.state': 'Estado',
+  'health.lastOk': 'Última leitura ok',
+  'health.latency': 'Resposta',
+  'health.alarms': 'Alarmes',
+  'health.lastError': 'Último erro',
+  'health.http': 'HTTP',
+  'health.failures': 'Falhas seguidas',
+  'health.nextRetry': 'Próxima tentativa',
+  'health.retryAll': 'Tentar todos agora',
+  'health.waiting': 'Aguardando',
+  'health.failing': 'Falha',
+  'health.stale': 'Desatualizado',
+  'health.ok': 'Ok',
+
+  // ----- Feed e conexões -----
+  'feed.noServers': 'Nenhum servidor habilitado',
+  'feed.connected': 'Conectado ({counts})',
+  'feed.partial': 'Parcial — ok: {ok} / falha: {failed}{waiting}',
+  'feed.allFailed': 'Falha em todas as conexões{waiting}',
+  'feed.waiting': ' · aguardando nova tentativa: {servers}',
+  'feed.truncated': 'Lista truncada — {list}',
+  'feed.truncatedItem': '{server} {count} de {total}',
+  'feed.unknownError': 'Erro desconhecido',
+  'feed.live': 'Ao vivo ({counts})',
+  'feed.liveFailed': 'Ao vivo — falha: {servers}',
+  'feed.streamFallback': '{reason} — consultando os servidores direto',
+  'feed.streamUnavailable': 'Fluxo ao vivo indisponível',
+  'feed.unknownServer': 'Servidor de origem desconhecido ({id})',
+
+  // ----- Cliente Metasys e sessão -----
+  'api.loginFailed': 'Falha no login {apiBase}',
+  'api.noToken': 'Login {apiBase} sem accessToken',
+  'api.alarmsFailed': 'Falha ao buscar alarmes {apiBase}',
+  'api.acknowledgeFailed': 'Falha ao reconhecer alarme {apiBase}',
+  'api.discardFailed': 'Falha ao descartar alarme {apiBase}',
+  'api.objectNotFound': 'Objeto não encontrado {ref}',
+  'api.objectFailed': 'Falha ao ler o objeto {apiBase}',
+  'auth.noCredentials': 'Sem credenciais para {server}',
+
+  // ----- Login -----
+  'login.username': 'Usuário',
+  'login.password': 'Senha',
+  'login.perServer': 'Credenciais diferentes por servidor',
+  'login.submit': 'Entrar',
+  'login.busy': 'Entrando…',
+  'login.noServers': 'Nenhum servidor habilitado.',
+
+  // ----- Exportação -----
+  'export.filePrefix': 'alarmes',
+  'export.sheet': 'Alarmes',
+  'export.reportTitle': 'Relatório de alarmes — {at}',
+  'export.popupBlocked': 'O navegador bloqueou a janela de impressão',
+
+  // ----- Quiosque -----
+  'kiosk.allAlarms': 'Todos os alarmes',
+  'kiosk.meta': '{count} alarme(s) · página {page}/{pages}',
+  'kiosk.viewOf': ' · visão {view}/{views}',
+  'kiosk.empty': 'Nenhum alarme nesta visão',
+  'kiosk.exit': 'Voltar p/ a tabela (Esc)',
+
+  // ----- Estados enumerados Metasys ("enum.<conjunto>.<membro>") -----
+  'enum.alarmValueEnumSet.avNormal': 'Normal',
+  'enum.alarmValueEnumSet.avAlarm': 'Alarme',
+  'enum.alarmValueEnumSet.avHighAlarm': 'Alarme alto',
+  'enum.alarmValueEnumSet.avLowAlarm': 'Alarme baixo',
+  'enum.alarmValueEnumSet.avHighWarning': 'Alerta alto',
+  'enum.alarmValueEnumSet.avLowWarning': 'Alerta baixo',
+  'enum.alarmValueEnumSet.avFault': 'Falha',
+  'enum.alarmValueEnumSet.avOffline': 'Offline',
+  'enum.alarmValueEnumSet.avOnline': 'Online',
+  'enum.alarmValueEnumSet.avTrouble': 'Problema',
+  'enum.alarmValueEnumSet.avUnreliable': 'Não confiável',
+  'enum.alarmValueEnumSet.avShutdown': 'Desligamento',
+  'enum.alarmValueEnumSet.avRefresh': 'Atualização',
+  'enum.alarmValueEnumSet.avChangeOfState': 'Mudança de estado',
+  'enum.normalAlarmEnumSet.naNormal': 'Normal',
+  'enum.normalAlarmEnumSet.naAlarm': 'Alarme',
+  'enum.normalAlarm2EnumSet.na2Normal': 'Normal',
+  'enum.normalAlarm2EnumSet.na2Alarm': 'Alarme',
+  'enum.offonEnumSet.off': 'Desligado',
+  'enum.offonEnumSet.on': 'Ligado',
+  'enum.offOnEnumSet.off': 'Desligado',
+  'enum.offOnEnumSet.on': 'Ligado',
+  'enum.binarypvEnumSet.bacbinInactive': 'Inativo',
+  'enum.binarypvEnumSet.bacbinActive': 'Ativo',
+  'enum.openCloseEnumSet.open': 'Aberto',
+  'enum.openCloseEnumSet.closed': 'Fechado',
+  'enum.noYesEnumSet.no': 'Não',
+  'enum.noYesEnumSet.yes': 'Sim',
+  'enum.falseTrueEnumSet.false': 'Falso',
+  'enum.falseTrueEnumSet.true': 'Verdadeiro',
+  'enum.statusEnumSet.normal': 'Normal',
+  'enum.statusEnumSet.alarm': 'Alarme',
+  'enum.statusEnumSet.fault': 'Falha',
+  'enum.statusEnumSet.offline': 'Offline',
+  'enum.statusEnumSet.overridden': 'Sobrescrito',
+  'enum.statusEnumSet.trouble': 'Problema',
+  'enum.reliabilityEnumSet.noFaultDetected': 'Sem falha',
+  'enum.reliabilityEnumSet.noSensor': 'Sem sensor',
+  'enum.reliabilityEnumSet.overRange': 'Acima da faixa',
+  'enum.reliabilityEnumSet.underRange': 'Abaixo da faixa',
+  'enum.reliabilityEnumSet.openLoop': 'Circuito aberto',
+  'enum.reliabilityEnumSet.shortedLoop': 'Curto-circuito',
+  'enum.reliabilityEnumSet.noOutput': 'Sem saída',
+  'enum.reliabilityEnumSet.unreliableOther': 'Não confiável',
+  'enum.reliabilityEnumSet.processError': 'Erro de processo',
+  'enum.reliabilityEnumSet.communicationFailure': 'Falha de comunicação',
+  'enum.objectTypeEnumSet.aiClass': 'Entrada analógica',
+  'enum.objectTypeEnumSet.aoClass': 'Saída analógica',
+  'enum.objectTypeEnumSet.avClass': 'Valor analógico',
+  'enum.objectTypeEnumSet.biClass': 'Entrada binária',
+  'enum.objectTypeEnumSet.boClass': 'Saída binária',
+  'enum.objectTypeEnumSet.bvClass': 'Valor binário',
+  'enum.objectTypeEnumSet.msiClass': 'Entrada multiestado',
+  'enum.objectTypeEnumSet.msoClass': 'Saída multiestado',
+  'enum.objectTypeEnumSet.msvClass': 'Valor multiestado',
+};
+
+export type MessageKey = keyof typeof ptBR;
+
+export default ptBR;
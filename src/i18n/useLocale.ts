@@ -0,0 +1,8 @@
+// src/i18n/useLocale.ts
+import { useSyncExternalStore } from 'react';
+import { getLocale, subscribeLocale, type Locale } from './i18n';
+
+// Re-renderiza quando o idioma muda; o valor serve de dependência p/ memos com texto traduzido
+export function useLocale(): Locale {
+  return useSyncExternalStore(subscribeLocale, getLocale);
+}
@@ -0,0 +1,176 @@
+// src/kiosk/Kiosk.tsx
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from 'react';
+import './Kiosk.css';
+import { alarmFeed } from '../alarms/alarmFeed';
+import { useAlarmFeed } from '../alarms/useAlarmFeed';
+import { filterMatchers, filterRows, sortRows } from '../alarms/filterRows';
+import { loadSeverityBands, severityLabel, severityOf } from '../alarms/severity';
+import { formatDateTime, formatTime, t, type MessageKey } from '../i18n/i18n';
+import { enumLabel, unitLabel } from '../lib/metasysEnums';
+import { enabledServers, parseRowId } from '../lib/servers';
+import { convertRows, loadUnitSystem } from '../lib/units';
+import { isStale, type ServerHealth } from '../lib/health';
+import { kioskViews, nextStep, parseKioskConfig, type KioskStep } from './kiosk';
+
+type Props = { onExit: () => void };
+
+// Altura fixa da linha (igual a .kiosk-table tbody tr no CSS): define quantas cabem por página
+const ROW_PX = 64;
+
+function serverStatus(h: ServerHealth | undefined, now: number): { cls: string; label: MessageKey } {
+  if (h && h.consecutiveFailures > 0) return { cls: 'fail', label: 'health.failing' };
+  if (isStale(h, now)) return { cls: 'stale', label: 'health.stale' };
+  if (h?.lastSuccessAt !== undefined) return { cls: 'ok', label: 'health.ok' };
+  return { cls: 'wait', label: 'health.waiting' };
+}
+
+// Relógio isolado: o tique de 1s não re-renderiza a lista
+function Clock() {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(id);
+  }, []);
+  return <span className="kiosk-clock mono">{formatTime(now.getTime())}</span>;
+}
+
+/* =========================================
+   Painel de parede: mesmas linhas do feed compartilhado (useAlarmFeed),
+   filtradas/ordenadas por visão salva, em páginas que viram sozinhas.
+   Esc volta p/ a tabela.
+   ========================================= */
+export default function Kiosk({ onExit }: Props) {
+  const { rows, health, refreshedAt, error, loading } = useAlarmFeed();
+  const config = useMemo(() => parseKioskConfig(window.location.search), []);
+  const views = useMemo(() => kioskViews(config), [config]);
+  const [bands] = useState(loadSeverityBands);
+  const [unitSystem] = useState(loadUnitSystem);
+
+  // O feed é compartilhado: a tabela pode ter deixado um filtro de reconhecido/descartado no servidor.
+  // As visões do quiosque filtram localmente, então ele lê tudo (e relê se as linhas vieram filtradas)
+  useEffect(() => {
+    if (alarmFeed.setQuery({})) void alarmFeed.refresh();
+  }, []);
+
+  const [step, setStep] = useState<KioskStep>({ view: 0, page: 0 });
+  const view = views[step.view % views.length];
+
+  const viewRows = useMemo(
+    () => {
+      const matched = filterRows(convertRows(rows, unitSystem), view.filters, filterMatchers(view.filters, bands));
+      return sortRows(matched, view.sortKey, view.sortDir, bands);
+    },
+    [rows, view, bands, unitSystem],
+  );
+
+  // Linhas por página conforme a altura disponível (muda com a tela / zoom)
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const [perPage, setPerPage] = useState(10);
+  useEffect(() => {
+    const el = bodyRef.current;
+    if (!el) return;
+    const update = () => setPerPage(Math.max(1, Math.floor((el.clientHeight - ROW_PX) / ROW_PX))); // -1 linha = cabeçalho
+    update();
+    const ro = new ResizeObserver(update);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  const pages = Math.max(1, Math.ceil(viewRows.length / perPage));
+  const page = Math.min(step.page, pages - 1); // a lista pode encolher entre uma virada e outra
+
+  useEffect(() => {
+    const id = window.setTimeout(
+      () => setStep((s) => nextStep({ view: s.view, page }, pages, views.length)),
+      config.pageSeconds * 1000,
+    );
+    return () => window.clearTimeout(id);
+  }, [step, page, pages, views.length, config.pageSeconds]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onExit(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onExit]);
+
+  // Contagem por servidor sobre todas as linhas do feed (não só as da visão)
+  const perServer = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const r of rows) {
+      const name = parseRowId(r.id)?.server.name;
+      if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+    return counts;
+  }, [rows]);
+
+  const pageRows = viewRows.slice(page * perPage, (page + 1) * perPage);
+
+  return (
+    <div className="kiosk">
+      <header className="kiosk-header">
+        <div className="kiosk-title">
+          <h1>{view.name || t('kiosk.allAlarms')}</h1>
+          <span className="kiosk-meta">
+            {t('kiosk.meta', { count: viewRows.length, page: page + 1, pages })}
+            {views.length > 1 && t('kiosk.viewOf', { view: (step.view % views.length) + 1, views: views.length })}
+          </span>
+        </div>
+
+        <ul className="kiosk-servers">
+          {enabledServers().map((srv) => {
+            const st = serverStatus(health[srv.name], refreshedAt);
+            return (
+              <li key={srv.name} className={`kiosk-server ${st.cls}`} title={health[srv.name]?.lastError}>
+                <span className="kiosk-server-name">{srv.label}</span>
+                <span className="kiosk-server-status">{t(st.label)} · {perServer.get(srv.name) ?? 0}</span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <Clock />
+      </header>
+
+      {error && <div className="kiosk-banner">{error}</div>}
+
+      <div className="kiosk-body" ref={bodyRef}>
+        <table className="kiosk-table">
+          <thead>
+            <tr>
+              <th className="k-date">{t('col.dateTime')}</th>
+              <th className="k-site">{t('col.site')}</th>
+              <th>{t('col.point')}</th>
+              <th className="k-value">{t('col.value')}</th>
+              <th className="k-sev">{t('col.severity')}</th>
+              <th className="k-server">{t('col.server')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((r) => {
+              const sev = severityOf(r.priority, bands);
+              return (
+                <tr
+                  key={r.id}
+                  className={r.reconhecido ? 'acked' : undefined}
+                  style={{ '--sev': sev.color } as CSSProperties}
+                >
+                  <td className="k-date mono">{formatDateTime(r.dateTimeISO)}</td>
+                  <td className="k-site">{r.site}</td>
+                  <td>{r.point}</td>
+                  <td className="k-value mono">{enumLabel(r.value)}{r.unit && ` ${unitLabel(r.unit)}`}</td>
+                  <td className="k-sev">{severityLabel(sev.id)} <span className="mono">{r.priority}</span></td>
+                  <td className="k-server">{parseRowId(r.id)?.server.label ?? ''}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {pageRows.length === 0 && (
+          <div className="kiosk-empty">{loading && rows.length === 0 ? t('common.loading') : t('kiosk.empty')}</div>
+        )}
+      </div>
+
+      <button className="kiosk-exit" onClick={onExit} title={t('kiosk.exit')}>×</button>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+// src/kiosk/kiosk.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ALL_ALARMS_VIEW, DEFAULT_PAGE_SECONDS, kioskViews, nextStep, parseKioskConfig } from './kiosk';
+import { DEFAULT_COLS, DEFAULT_FILTERS } from '../alarms/viewState';
+import { filterMatchers, filterRows } from '../alarms/filterRows';
+import type { SavedViewsStore } from '../alarms/savedViews';
+
+const store: SavedViewsStore = {
+  views: ['Críticos', 'Bloco A', 'Chillers'].map((name, i) => ({
+    id: `v${i}`,
+    name,
+    state: { filters: { ...DEFAULT_FILTERS, site: name }, sortKey: 'dateTime', sortDir: 'desc', cols: DEFAULT_COLS },
+  })),
+};
+
+describe('configuração do quiosque', () => {
+  it('lê visões e tempo de página da URL', () => {
+    expect(parseKioskConfig('?views=Críticos, Chillers,&pageSeconds=30')).toEqual({
+      views: ['Críticos', 'Chillers'],
+      pageSeconds: 30,
+    });
+  });
+
+  it('tempo inválido cai no padrão; tempo curto demais é limitado', () => {
+    expect(parseKioskConfig('?pageSeconds=abc').pageSeconds).toBe(DEFAULT_PAGE_SECONDS);
+    expect(parseKioskConfig('').pageSeconds).toBe(DEFAULT_PAGE_SECONDS);
+    expect(parseKioskConfig('?pageSeconds=1').pageSeconds).toBe(5);
+  });
+
+  it('segue a ordem pedida e ignora nomes desconhecidos', () => {
+    const views = kioskViews({ views: ['chillers', 'Inexistente', 'Críticos'], pageSeconds: 15 }, store);
+    expect(views.map((v) => v.name)).toEqual(['Chillers', 'Críticos']);
+  });
+
+  it('sem nomes usa todas as visões; sem visões usa "Todos os alarmes"', () => {
+    expect(kioskViews({ views: [], pageSeconds: 15 }, store)).toHaveLength(3);
+    expect(kioskViews({ views: [], pageSeconds: 15 }, { views: [] })).toEqual([ALL_ALARMS_VIEW]);
+    expect(kioskViews({ views: ['Inexistente'], pageSeconds: 15 }, store)).toEqual([ALL_ALARMS_VIEW]);
+  });
+});
+
+describe('visões salvas antigas', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('visão gravada antes da busca global não derruba o quiosque', () => {
+    const old = { views: [{ id: 'v1', name: 'Antiga', state: {
+      filters: { site: 'AHU', point: '', value: '', dateFrom: '', dateTo: '', priority: '', ack: 'all', disc: 'nao' },
+      sortKey: 'priority', sortDir: 'asc', cols: {},
+    } }] };
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(old) });
+    const [view] = kioskViews({ views: [], pageSeconds: 15 });
+    expect(view.filters).toEqual({ ...DEFAULT_FILTERS, site: 'AHU', disc: 'nao' });
+    expect(() => filterRows([], view.filters, filterMatchers(view.filters))).not.toThrow();
+  });
+});
+
+describe('ciclo de páginas', () => {
+  it('vira as páginas e depois passa p/ a próxima visão', () => {
+    expect(nextStep({ view: 0, page: 0 }, 3, 2)).toEqual({ view: 0, page: 1 });
+    expect(nextStep({ view: 0, page: 2 }, 3, 2)).toEqual({ view: 1, page: 0 });
+    expect(nextStep({ view: 1, page: 0 }, 1, 2)).toEqual({ view: 0, page: 0 });
+  });
+});
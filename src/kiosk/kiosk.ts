@@ -0,0 +1,55 @@
+// src/kiosk/kiosk.ts
+import { loadSavedViews, type SavedViewsStore } from '../alarms/savedViews';
+import { DEFAULT_FILTERS, type Filters, type SortDir, type SortKey } from '../alarms/viewState';
+
+/* =========================================
+   Modo quiosque (painel de parede)
+   Configurado pela URL: /kiosk?views=Críticos,Bloco A&pageSeconds=15
+     views        nomes de visões salvas, na ordem do ciclo (vazio = todas)
+     pageSeconds  tempo de cada página antes de virar (padrão 15s)
+   ========================================= */
+export type KioskConfig = { views: string[]; pageSeconds: number };
+export type KioskView = { name: string; filters: Filters; sortKey: SortKey; sortDir: SortDir };
+export type KioskStep = { view: number; page: number };
+
+export const DEFAULT_PAGE_SECONDS = 15;
+const MIN_PAGE_SECONDS = 5;
+
+// Sem visões salvas: tudo que está ativo, mais crítico (menor prioridade) primeiro.
+// Sem nome: o painel mostra "Todos os alarmes" no idioma atual
+export const ALL_ALARMS_VIEW: KioskView = {
+  name: '',
+  filters: { ...DEFAULT_FILTERS, disc: 'nao' },
+  sortKey: 'priority',
+  sortDir: 'asc',
+};
+
+export function parseKioskConfig(search: string): KioskConfig {
+  const q = new URLSearchParams(search);
+  const views = (q.get('views') ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+  const seconds = Number(q.get('pageSeconds'));
+  return {
+    views,
+    pageSeconds: Number.isFinite(seconds) && seconds > 0 ? Math.max(MIN_PAGE_SECONDS, seconds) : DEFAULT_PAGE_SECONDS,
+  };
+}
+
+// Nomes sem visão correspondente são ignorados (comparação sem maiúsculas/minúsculas)
+export function kioskViews(config: KioskConfig, store: SavedViewsStore = loadSavedViews()): KioskView[] {
+  const toKiosk = (v: SavedViewsStore['views'][number]): KioskView => ({
+    name: v.name,
+    filters: v.state.filters,
+    sortKey: v.state.sortKey,
+    sortDir: v.state.sortDir,
+  });
+  const picked = config.views.length === 0
+    ? store.views
+    : config.views.flatMap((name) => store.views.filter((v) => v.name.toLowerCase() === name.toLowerCase()));
+  return picked.length > 0 ? picked.map(toKiosk) : [ALL_ALARMS_VIEW];
+}
+
+// Próxima página; depois da última, primeira página da próxima visão
+export function nextStep(step: KioskStep, pages: number, views: number): KioskStep {
+  if (step.page + 1 < pages) return { view: step.view, page: step.page + 1 };
+  return { view: views > 0 ? (step.view + 1) % views : 0, page: 0 };
+}
@@ -0,0 +1,85 @@
+// src/lib/api.test.ts
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { startMockMetasys, generateAlarms } from '../../server/mockMetasys';
+import { ApiError, alarmAction, getAlarms, getObject, getObjectId, login, normalizeValue } from './api';
+
+describe('normalizeValue', () => {
+  it.each([
+    [undefined, ''],
+    ['', ''],
+    ['78.5', '78.5'],
+    ['"Falha"', 'Falha'],
+    ['true', 'true'],
+    ['null', 'null'],
+    ['Des"ligado', 'Desligado'], // JSON inválido: só tira as aspas
+    ['Ligado', 'Ligado'],
+    ['"alarmValueEnumSet.avHighAlarm"', 'alarmValueEnumSet.avHighAlarm'], // traduzido só na exibição
+  ])('%j -> %j', (raw, expected) => {
+    expect(normalizeValue(raw)).toBe(expected);
+  });
+});
+
+describe('cliente Metasys contra o simulador', () => {
+  let mock: Awaited<ReturnType<typeof startMockMetasys>>;
+  let token: string;
+
+  beforeEach(async () => {
+    mock = await startMockMetasys({ alarms: generateAlarms(7, 'a', Date.UTC(2026, 2, 10)), username: 'op', password: 'x' });
+    token = (await login(mock.apiBase, 'op', 'x')).accessToken;
+  });
+  afterEach(() => mock.close());
+
+  it('recusa login inválido com ApiError 401', async () => {
+    await expect(login(mock.apiBase, 'op', 'errada')).rejects.toMatchObject({ name: 'ApiError', status: 401 });
+  });
+
+  it('segue as páginas até o total', async () => {
+    const res = await getAlarms(mock.apiBase, token, { pageSize: 2 });
+    expect(res.total).toBe(7);
+    expect(res.items.map((a) => a.id)).toEqual(['a-1', 'a-2', 'a-3', 'a-4', 'a-5', 'a-6', 'a-7']);
+    expect(res.truncated).toBe(false);
+    expect(mock.mock.stats.alarmRequests).toBe(4);
+  });
+
+  it('para no teto e marca a lista como truncada', async () => {
+    const res = await getAlarms(mock.apiBase, token, { pageSize: 2, maxItems: 3 });
+    expect(res.items).toHaveLength(3);
+    expect(res).toMatchObject({ total: 7, truncated: true });
+  });
+
+  it('repassa os filtros de reconhecido/descartado', async () => {
+    const res = await getAlarms(mock.apiBase, token, { isAcknowledged: false, isDiscarded: false });
+    expect(res.items.every((a) => !a.isAcknowledged && !a.isDiscarded)).toBe(true);
+    expect(res.total).toBe(res.items.length);
+  });
+
+  it('devolve o status HTTP da falha', async () => {
+    mock.mock.setFailure({ mode: 'alarms', status: 503 });
+    const err = await getAlarms(mock.apiBase, token).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ApiError);
+    expect((err as ApiError).status).toBe(503);
+  });
+
+  it('falha de rede não vira ApiError', async () => {
+    mock.mock.setFailure({ mode: 'drop' });
+    const err = await getAlarms(mock.apiBase, token).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(Error);
+    expect(err).not.toBeInstanceOf(ApiError);
+  });
+
+  it('reconhece e descarta no servidor', async () => {
+    await alarmAction(mock.apiBase, token, 'a-2', 'acknowledge', 'visto');
+    await alarmAction(mock.apiBase, token, 'a-2', 'discard');
+    expect(mock.mock.alarms.find((a) => a.id === 'a-2')).toMatchObject({ isAcknowledged: true, isDiscarded: true });
+    await expect(alarmAction(mock.apiBase, token, 'nao-existe', 'acknowledge')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('resolve o itemReference e lê os atributos do ponto', async () => {
+    const ref = mock.mock.alarms[0].itemReference;
+    const id = await getObjectId(mock.apiBase, token, ref);
+    const item = await getObject(mock.apiBase, token, id);
+    expect(item).toMatchObject({ id, itemReference: ref, units: 'unitEnumSet.degF' });
+    expect(typeof item.presentValue).toBe('number');
+    await expect(getObjectId(mock.apiBase, token, 'ADX:nao/existe')).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -1,5 +1,7 @@
 // src/lib/api.ts
-export type LoginResponse = { accessToken: string };
+import { t } from '../i18n/i18n';
+
+export type LoginResponse = { accessToken: string; expires?: string };
 
 export type AlarmDTO = {
   id: string;
@@ -14,66 +16,127 @@ export type AlarmDTO = {
 
 export type AlarmsResponse = { total: number; items: AlarmDTO[] };
 
-export async function login(username: string, password: string): Promise<string> {
-  const res = await fetch(`/api/v3/login`, {
+// Erro HTTP com status — permite ao chamador tratar 401 (token expirado)
+export class ApiError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+async function failure(res: Response, what: string): Promise<ApiError> {
+  const text = await res.text().catch(() => '');
+  return new ApiError(`${what} (${res.status}): ${text || res.statusText}`, res.status);
+}
+
+/* =========================================
+   Cliente Metasys v3 — apiBase vem do registro de servidores
+   ("/api100" via proxy do Vite ou URL base)
+   ========================================= */
+export async function login(apiBase: string, username: string, password: string): Promise<LoginResponse> {
+  const res = await fetch(`${apiBase}/v3/login`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ username, password }),
   });
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(`Falha no login (${res.status}): ${text || res.statusText}`);
-  }
+  if (!res.ok) throw await failure(res, t('api.loginFailed', { apiBase }));
   const data = (await res.json()) as LoginResponse;
-  if (!data.accessToken) throw new Error('Resposta de login sem accessToken');
-  return data.accessToken;
+  if (!data.accessToken) throw new Error(t('api.noToken', { apiBase }));
+  return data;
 }
 
+// Paginação: segue as páginas até "total" ou até o teto (maxItems)
+export const DEFAULT_PAGE_SIZE = 500;
+export const DEFAULT_MAX_ITEMS = 10000;
+
+export type AlarmsQuery = {
+  isAcknowledged?: boolean;
+  isDiscarded?: boolean;
+  pageSize?: number;
+  maxItems?: number;
+};
+
+// total = o que o servidor informou; truncated = parou no teto antes do total
+export type AlarmsResult = AlarmsResponse & { truncated: boolean };
+
 export async function getAlarms(
+  apiBase: string,
   token: string,
-  opts?: { isAcknowledged?: boolean; isDiscarded?: boolean }
-): Promise<AlarmsResponse> {
-  const params = new URLSearchParams();
+  opts?: AlarmsQuery
+): Promise<AlarmsResult> {
+  const pageSize = opts?.pageSize ?? DEFAULT_PAGE_SIZE;
+  const maxItems = opts?.maxItems ?? DEFAULT_MAX_ITEMS;
+  const items: AlarmDTO[] = [];
+  let total = 0;
 
-  // sempre força o pageSize = 100000
-  params.append('pageSize', '500');
+  for (let page = 1; ; page++) {
+    const params = new URLSearchParams();
+    params.append('page', String(page));
+    params.append('pageSize', String(pageSize));
+    if (opts?.isAcknowledged !== undefined) params.append('isAcknowledged', String(opts.isAcknowledged));
+    if (opts?.isDiscarded !== undefined)   params.append('isDiscarded', String(opts.isDiscarded));
 
-  if (opts?.isAcknowledged !== undefined) {
-    params.append('isAcknowledged', String(opts.isAcknowledged));
-  }
-  if (opts?.isDiscarded !== undefined) {
-    params.append('isDiscarded', String(opts.isDiscarded));
+    const res = await fetch(`${apiBase}/v3/alarms/?${params.toString()}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) throw await failure(res, t('api.alarmsFailed', { apiBase }));
+    const data = (await res.json()) as AlarmsResponse;
+
+    total = data.total ?? 0;
+    items.push(...(data.items ?? []));
+    // página vazia ou incompleta também encerra (evita laço se "total" vier errado)
+    if (items.length >= total || items.length >= maxItems || (data.items?.length ?? 0) < pageSize) break;
   }
 
-  const query = `?${params.toString()}`;
+  const capped = items.slice(0, maxItems);
+  return { total, items: capped, truncated: capped.length < total };
+}
+
+// Ações do operador: PUT /alarms/{id}/acknowledge | /discard, com anotação opcional
+export type AlarmAction = 'acknowledge' | 'discard';
 
-  const res = await fetch(`/api/v3/alarms/${query}`, {
+export async function alarmAction(
+  apiBase: string,
+  token: string,
+  alarmId: string,
+  action: AlarmAction,
+  annotation?: string
+): Promise<void> {
+  const res = await fetch(`${apiBase}/v3/alarms/${encodeURIComponent(alarmId)}/${action}`, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(annotation?.trim() ? { annotationText: annotation.trim() } : {}),
+  });
+  if (!res.ok) throw await failure(res, t(action === 'acknowledge' ? 'api.acknowledgeFailed' : 'api.discardFailed', { apiBase }));
+}
+
+// Ponto por trás do alarme: itemReference (FQR) -> GUID do objeto -> atributos
+export type MetasysObject = Record<string, unknown>;
+
+export async function getObjectId(apiBase: string, token: string, itemReference: string): Promise<string> {
+  const params = new URLSearchParams({ fqr: itemReference });
+  const res = await fetch(`${apiBase}/v3/objectIdentifiers?${params.toString()}`, {
     headers: { Authorization: `Bearer ${token}` },
   });
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(`Falha ao buscar alarmes (${res.status}): ${text || res.statusText}`);
-  }
-  return (await res.json()) as AlarmsResponse;
+  if (!res.ok) throw await failure(res, t('api.objectNotFound', { ref: itemReference }));
+  return String(await res.json());
+}
+
+export async function getObject(apiBase: string, token: string, objectId: string): Promise<MetasysObject> {
+  const res = await fetch(`${apiBase}/v3/objects/${encodeURIComponent(objectId)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw await failure(res, t('api.objectFailed', { apiBase }));
+  const data = (await res.json()) as { item?: MetasysObject };
+  return data.item ?? {};
 }
 
 /* Helpers */
+// Só tira as aspas do JSON; estados enumerados ("alarmValueEnumSet.avHighAlarm")
+// ficam crus e viram texto na exibição (metasysEnums.enumLabel)
 export function normalizeValue(raw?: string): string {
   if (!raw) return '';
   try { return String(JSON.parse(raw)); } catch { return raw.replaceAll('"', ''); }
 }
-
-export function mapUnit(units?: string): string {
-  if (!units) return '';
-  if (units.endsWith('.degF')) return '°F';
-  if (units.endsWith('.degC')) return '°C';
-  return units;
-}
-
-export function formatDateUTCToLocal(iso: string): string {
-  const d = new Date(iso);
-  return d.toLocaleString('pt-BR', {
-    year: 'numeric', month: '2-digit', day: '2-digit',
-    hour: '2-digit', minute: '2-digit', second: '2-digit',
-  });
-}
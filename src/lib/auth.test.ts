@@ -0,0 +1,40 @@
+// src/lib/auth.test.ts
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { startMockMetasys } from '../../server/mockMetasys';
+import { getAlarms } from './api';
+import { logout, signIn, withAuth } from './auth';
+import type { AdxServer } from './servers';
+
+describe('withAuth contra o simulador', () => {
+  let mock: Awaited<ReturnType<typeof startMockMetasys>>;
+  let server: AdxServer;
+
+  beforeEach(async () => {
+    mock = await startMockMetasys({ username: 'op', password: 'x' });
+    server = { name: 'mock', label: 'Mock', apiBase: mock.apiBase, enabled: true };
+    await signIn(server, { username: 'op', password: 'x' });
+  });
+  afterEach(async () => {
+    logout();
+    await mock.close();
+  });
+
+  it('reaproveita o token enquanto ele vale', async () => {
+    await withAuth(server, (t) => getAlarms(server.apiBase, t));
+    await withAuth(server, (t) => getAlarms(server.apiBase, t));
+    expect(mock.mock.stats.logins).toBe(1);
+  });
+
+  it('em 401 refaz o login uma vez e repete a chamada', async () => {
+    mock.mock.expireTokens();
+    const res = await withAuth(server, (t) => getAlarms(server.apiBase, t));
+    expect(res.items.length).toBeGreaterThan(0);
+    expect(mock.mock.stats.logins).toBe(2);
+  });
+
+  it('login recusado no re-login propaga o erro', async () => {
+    mock.mock.expireTokens();
+    mock.mock.setFailure({ mode: 'login' });
+    await expect(withAuth(server, (t) => getAlarms(server.apiBase, t))).rejects.toMatchObject({ status: 401 });
+  });
+});
@@ -0,0 +1,75 @@
+// src/lib/auth.ts
+import { t } from '../i18n/i18n';
+import { login, ApiError } from './api';
+import type { AdxServer } from './servers';
+
+/* =========================================
+   Sessão por servidor (somente em memória)
+   Credenciais informadas na tela de login + token com validade.
+   Nada vai para o bundle nem para o localStorage.
+   ========================================= */
+export type Credentials = { username: string; password: string };
+
+type Session = {
+  credentials: Credentials;
+  token?: string;
+  expiresAt?: number; // epoch ms
+};
+
+// Metasys normalmente informa "expires"; sem ele assumimos 20 min
+const DEFAULT_TTL_MS = 20 * 60 * 1000;
+// renova um pouco antes de expirar p/ não perder uma chamada no limite
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+const sessions = new Map<string, Session>();
+
+export function isLoggedIn(): boolean {
+  return sessions.size > 0;
+}
+
+async function authenticate(server: AdxServer, session: Session): Promise<string> {
+  const { username, password } = session.credentials;
+  const data = await login(server.apiBase, username, password);
+  const exp = data.expires ? new Date(data.expires).getTime() : NaN;
+  session.token = data.accessToken;
+  session.expiresAt = Number.isFinite(exp) ? exp : Date.now() + DEFAULT_TTL_MS;
+  return data.accessToken;
+}
+
+export async function getToken(server: AdxServer): Promise<string> {
+  const session = sessions.get(server.name);
+  if (!session) throw new Error(t('auth.noCredentials', { server: server.label }));
+  if (session.token && session.expiresAt && Date.now() < session.expiresAt - EXPIRY_MARGIN_MS) {
+    return session.token;
+  }
+  return authenticate(server, session);
+}
+
+// Executa uma chamada autenticada; em 401 refaz o login uma vez e repete
+export async function withAuth<T>(server: AdxServer, call: (token: string) => Promise<T>): Promise<T> {
+  const token = await getToken(server);
+  try {
+    return await call(token);
+  } catch (e) {
+    const session = sessions.get(server.name);
+    if (!(e instanceof ApiError) || e.status !== 401 || !session) throw e;
+    return call(await authenticate(server, session));
+  }
+}
+
+// Valida as credenciais já no login (gera o primeiro token)
+export async function signIn(server: AdxServer, credentials: Credentials): Promise<void> {
+  const session: Session = { credentials };
+  await authenticate(server, session);
+  sessions.set(server.name, session);
+}
+
+// Usuário logado (primeira sessão) — autor dos comentários
+export function currentUser(): string {
+  const first = sessions.values().next().value;
+  return first?.credentials.username ?? '';
+}
+
+export function logout() {
+  sessions.clear();
+}
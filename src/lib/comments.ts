@@ -0,0 +1,79 @@
+// src/lib/comments.ts
+import { t } from '../i18n/i18n';
+
+/* =========================================
+   Comentários compartilhados — backend local em /board-api
+   (server/boardApi.ts, servido junto com o Vite)
+   ========================================= */
+export type CommentEntry = {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string; // ISO
+};
+
+export type CommentThreads = Record<string, CommentEntry[]>; // id composto -> histórico
+
+const BASE = '/board-api/comments';
+
+async function check(res: Response, what: string) {
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`${what} (${res.status}): ${text || res.statusText}`);
+  }
+}
+
+export async function fetchComments(): Promise<CommentThreads> {
+  const res = await fetch(BASE);
+  await check(res, t('comments.loadFailed'));
+  return (await res.json()) as CommentThreads;
+}
+
+export async function addComment(alarmId: string, author: string, text: string): Promise<CommentEntry> {
+  const res = await fetch(`${BASE}/${encodeURIComponent(alarmId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ author, text }),
+  });
+  await check(res, t('comments.saveFailed'));
+  return (await res.json()) as CommentEntry;
+}
+
+export function latestComment(thread?: CommentEntry[]): CommentEntry | undefined {
+  return thread && thread.length > 0 ? thread[thread.length - 1] : undefined;
+}
+
+// ----- Migração única do localStorage antigo (alarm_comment_<id>) -----
+const LEGACY_PREFIX = 'alarm_comment_';
+const MIGRATED_KEY = 'alarm_comments_migrated';
+
+export async function migrateLocalComments(author: string): Promise<number> {
+  let items: { alarmId: string; author: string; text: string }[] = [];
+  try {
+    if (localStorage.getItem(MIGRATED_KEY) === '1') return 0;
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(LEGACY_PREFIX)) continue;
+      const text = localStorage.getItem(key) ?? '';
+      if (text.trim()) items.push({ alarmId: key.slice(LEGACY_PREFIX.length), author, text });
+    }
+  } catch {
+    items = [];
+  }
+
+  if (items.length > 0) {
+    const res = await fetch(`${BASE}/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(items),
+    });
+    await check(res, t('comments.migrateFailed'));
+  }
+
+  // só apaga depois que o backend confirmou
+  try {
+    for (const it of items) localStorage.removeItem(`${LEGACY_PREFIX}${it.alarmId}`);
+    localStorage.setItem(MIGRATED_KEY, '1');
+  } catch { /* sem storage */ }
+  return items.length;
+}
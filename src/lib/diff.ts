@@ -0,0 +1,21 @@
+// src/lib/diff.ts
+
+/* =========================================
+   Diferença entre duas leituras (snapshots) por ID composto.
+   "inScope" limita a comparação — ex.: só servidores que responderam
+   nas duas leituras, p/ uma falha de conexão não parecer normalização.
+   ========================================= */
+export type SnapshotDiff<T> = { added: T[]; removed: T[] };
+
+export function diffSnapshot<T extends { id: string }>(
+  prev: T[],
+  next: T[],
+  inScope: (id: string) => boolean = () => true
+): SnapshotDiff<T> {
+  const prevIds = new Set(prev.map((r) => r.id));
+  const nextIds = new Set(next.map((r) => r.id));
+  return {
+    added: next.filter((r) => !prevIds.has(r.id) && inScope(r.id)),
+    removed: prev.filter((r) => !nextIds.has(r.id) && inScope(r.id)),
+  };
+}
@@ -0,0 +1,18 @@
+// src/lib/export.test.ts
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './export';
+
+describe('toCsv', () => {
+  it('texto que começa como fórmula sai com apóstrofo; números não', () => {
+    const csv = toCsv({ columns: ['Ponto', 'Valor'], rows: [['=HYPERLINK("x")', -5], ['+1', 1], ['@SUM(A1)', 2], ['-x', 3], ['AHU', 4]] });
+    expect(csv.slice(1).split('\r\n')).toEqual([
+      'Ponto;Valor',
+      `"'=HYPERLINK(""x"")";-5`,
+      "'+1;1",
+      "'@SUM(A1);2",
+      "'-x;3",
+      'AHU;4',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+// src/lib/export.ts
+import writeXlsxFile from 'write-excel-file/browser';
+import { getLocale, formatNumber, t } from '../i18n/i18n';
+
+/* =========================================
+   Exportação da visão atual (filtros, ordem e colunas visíveis)
+   CSV no formato do idioma (UTF-8 com BOM; pt-BR: ";" e vírgula decimal,
+   en: "," e ponto decimal), XLSX e impressão/PDF.
+   ========================================= */
+export type ExportCell = string | number;
+export type ExportTable = { columns: string[]; rows: ExportCell[][] };
+
+const plainNumber = (n: number) => formatNumber(n, { useGrouping: false, maximumFractionDigits: 10 });
+
+// Separador que o Excel espera no idioma: ";" onde a vírgula é decimal
+const csvSeparator = () => (getLocale() === 'en' ? ',' : ';');
+
+// Texto que o Excel leria como fórmula (nome, comentário…) ganha um ' na frente; números não passam por aqui
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(cell: ExportCell, sep: string): string {
+  const text = typeof cell === 'number' ? plainNumber(cell) : FORMULA_START.test(cell) ? `'${cell}` : cell;
+  return text.includes(sep) || /["\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function toCsv(table: ExportTable): string {
+  const sep = csvSeparator();
+  const lines = [table.columns, ...table.rows].map((row) => row.map((cell) => csvField(cell, sep)).join(sep));
+  return `\uFEFF${lines.join('\r\n')}\r\n`; // BOM p/ o Excel reconhecer UTF-8
+}
+
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadCsv(table: ExportTable, fileName: string) {
+  download(new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8' }), fileName);
+}
+
+export async function downloadXlsx(table: ExportTable, fileName: string) {
+  const header = table.columns.map((value) => ({ value, fontWeight: 'bold' as const }));
+  await writeXlsxFile([header, ...table.rows], {
+    sheet: t('export.sheet'),
+    stickyRowsCount: 1,
+  }).toFile(fileName);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+}
+
+// Relatório em janela própria com estilo de impressão; o "Salvar como PDF" fica com o navegador
+export function printTable(table: ExportTable, title: string) {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error(t('export.popupBlocked'));
+  const cell = (c: ExportCell) => escapeHtml(typeof c === 'number' ? plainNumber(c) : c);
+  win.document.write(`<!doctype html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  body { font-family: system-ui, Arial, sans-serif; font-size: 10pt; color: #0b1220; }
+  h1 { font-size: 14pt; margin: 0 0 8px; color: #08338F; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: #08338F; color: #fff; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  th, td { border: 1px solid #c9d3e0; padding: 3px 6px; text-align: left; vertical-align: top; }
+  tr { page-break-inside: avoid; }
+  thead { display: table-header-group; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<table>
+<thead><tr>${table.columns.map((c) => `<th>${cell(c)}</th>`).join('')}</tr></thead>
+<tbody>
+${table.rows.map((r) => `<tr>${r.map((c) => `<td>${cell(c)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>
+</body>
+</html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+}
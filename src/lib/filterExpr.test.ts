@@ -0,0 +1,51 @@
+// src/lib/filterExpr.test.ts
+import { describe, expect, it } from 'vitest';
+import { fieldsMatcher, numberMatcher, textMatcher } from './filterExpr';
+
+describe('textMatcher', () => {
+  it.each([
+    ['', 'qualquer', true],
+    ['ahu', 'AHU-01', true],
+    ['!ahu', 'AHU-01', false],
+    ['/^ahu-\\d+$/', 'AHU-07', true],
+    ['!/test$/', 'ponto TEST', false],
+  ])('%j em %j -> %j', (expr, text, expected) => {
+    expect(textMatcher(expr).test(text)).toBe(expected);
+  });
+
+  it('regex inválida não filtra e avisa', () => {
+    const m = textMatcher('/(/');
+    expect(m.error).toBeTruthy();
+    expect(m.test('x')).toBe(true);
+  });
+});
+
+describe('fieldsMatcher', () => {
+  it.each([
+    ['/^ahu/', ['CH-02', 'AHU-01'], true],
+    ['/^ahu/', ['CH-02', 'sub AHU'], false],
+    ['!/^ahu/', ['CH-02', 'AHU-01'], false],
+    ['!ahu', ['CH-02', 'Temp'], true],
+  ])('%j em %j -> %j', (expr, fields, expected) => {
+    expect(fieldsMatcher(expr).test(fields)).toBe(expected);
+  });
+});
+
+describe('numberMatcher', () => {
+  it.each([
+    ['10', [10], [11]],
+    ['50-0', [0, 25, 50], [51]],
+    ['<=50', [50], [51]],
+    ['>200', [201], [200]],
+    ['0-20, 200', [5, 200], [100]],
+  ])('%j', (expr, pass, fail) => {
+    const m = numberMatcher(expr);
+    expect(m.error).toBeUndefined();
+    for (const n of pass) expect(m.test(n)).toBe(true);
+    for (const n of fail) expect(m.test(n)).toBe(false);
+  });
+
+  it('termo inválido não filtra e avisa', () => {
+    expect(numberMatcher('abc').error).toBe('Termo inválido: abc');
+  });
+});
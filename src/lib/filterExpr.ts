@@ -0,0 +1,86 @@
+// src/lib/filterExpr.ts
+import { t } from '../i18n/i18n';
+
+/* =========================================
+   Linguagem dos filtros
+   Texto:      AHU         contém (sem diferenciar maiúsculas)
+               !TEST       não contém
+               /^AHU-\d+/  expressão regular (sempre sem diferenciar maiúsculas)
+               !/TEST$/    regex negada
+   Prioridade: 10          igual
+               0-50        faixa (inclusiva)
+               <=50 >200   comparações (<, <=, >, >=, =)
+               0-20, 200   termos separados por vírgula ou ; = OU
+   Expressão inválida não filtra nada e devolve "error" p/ a tela avisar.
+   ========================================= */
+export type Matcher<T> = { test: (value: T) => boolean; error?: string };
+
+const PASS = () => true;
+
+// Expressão de texto sem a negação: "test" diz se o texto contém / casa
+function parseText(expr: string): { test: (text: string) => boolean; negate: boolean; error?: string } | null {
+  let e = expr.trim();
+  if (!e) return null;
+  const negate = e.startsWith('!');
+  if (negate) e = e.slice(1).trim();
+  if (!e) return null;
+
+  const regex = /^\/(.+)\/$/.exec(e);
+  if (regex) {
+    try {
+      const re = new RegExp(regex[1], 'i');
+      return { test: (text) => re.test(text), negate };
+    } catch {
+      return { test: PASS, negate: false, error: t('filter.badRegex', { expr: e }) };
+    }
+  }
+  const needle = e.toLowerCase();
+  return { test: (text) => text.toLowerCase().includes(needle), negate };
+}
+
+export function textMatcher(expr: string): Matcher<string> {
+  const p = parseText(expr);
+  if (!p) return { test: PASS };
+  if (p.error) return { test: PASS, error: p.error };
+  const { test, negate } = p;
+  return { test: negate ? (text) => !test(text) : test };
+}
+
+// Vários campos (busca global): cada um testado sozinho — ^ e $ valem por campo.
+// Positiva: algum campo casa; negada: nenhum casa
+export function fieldsMatcher(expr: string): Matcher<string[]> {
+  const p = parseText(expr);
+  if (!p) return { test: PASS };
+  if (p.error) return { test: PASS, error: p.error };
+  const { test, negate } = p;
+  return { test: (fields) => fields.some(test) !== negate };
+}
+
+const RANGE = /^(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)$/;
+const COMPARE = /^(<=|>=|<|>|=)?\s*(\d+(?:\.\d+)?)$/;
+
+export function numberMatcher(expr: string): Matcher<number> {
+  const terms = expr.split(/[,;]/).map((t) => t.trim()).filter(Boolean);
+  if (terms.length === 0) return { test: PASS };
+
+  const tests: ((n: number) => boolean)[] = [];
+  for (const term of terms) {
+    const range = RANGE.exec(term);
+    if (range) {
+      const [lo, hi] = [Number(range[1]), Number(range[2])].sort((a, b) => a - b);
+      tests.push((n) => n >= lo && n <= hi);
+      continue;
+    }
+    const cmp = COMPARE.exec(term);
+    if (!cmp) return { test: PASS, error: t('filter.badTerm', { term }) };
+    const v = Number(cmp[2]);
+    switch (cmp[1]) {
+      case '<':  tests.push((n) => n < v); break;
+      case '<=': tests.push((n) => n <= v); break;
+      case '>':  tests.push((n) => n > v); break;
+      case '>=': tests.push((n) => n >= v); break;
+      default:   tests.push((n) => n === v);
+    }
+  }
+  return { test: (n) => tests.some((t) => t(n)) };
+}
@@ -0,0 +1,34 @@
+// src/lib/health.test.ts
+import { describe, expect, it } from 'vitest';
+import { ApiError } from './api';
+import { BACKOFF_BASE_MS, BACKOFF_MAX_MS, backoffDelay, isDue, isStale, recordFailure, recordSuccess } from './health';
+
+describe('saúde por servidor', () => {
+  it('backoff dobra a cada falha até o teto', () => {
+    expect([0, 1, 2, 3, 4].map(backoffDelay)).toEqual([0, 1, 2, 4, 8].map((n) => n * BACKOFF_BASE_MS));
+    expect(backoffDelay(20)).toBe(BACKOFF_MAX_MS);
+  });
+
+  it('falhas seguidas guardam mensagem, status e próxima tentativa', () => {
+    const t0 = 1_000_000;
+    let h = recordFailure(undefined, new ApiError('Falha (500)', 500), t0);
+    h = recordFailure(h, new TypeError('fetch failed'), t0 + 10);
+    expect(h).toMatchObject({ consecutiveFailures: 2, lastError: 'fetch failed', lastStatus: undefined });
+    expect(h.nextRetryAt).toBe(t0 + 10 + 2 * BACKOFF_BASE_MS);
+    expect(isDue(h, t0 + 10 + BACKOFF_BASE_MS)).toBe(false);
+    expect(isDue(h, t0 + 10 + 2 * BACKOFF_BASE_MS)).toBe(true);
+  });
+
+  it('sucesso zera as falhas e mantém o último erro p/ consulta', () => {
+    const failed = recordFailure(undefined, new ApiError('x', 401), 0);
+    const ok = recordSuccess(failed, 120, 42, 5);
+    expect(ok).toMatchObject({ consecutiveFailures: 0, nextRetryAt: undefined, latencyMs: 120, count: 42, lastStatus: 401 });
+    expect(isDue(ok, 5)).toBe(true);
+  });
+
+  it('só fica desatualizado quem já teve leitura ok', () => {
+    expect(isStale(undefined, 10 ** 9)).toBe(false);
+    expect(isStale(recordFailure(undefined, new Error('x'), 0), 10 ** 9)).toBe(false);
+    expect(isStale(recordSuccess(undefined, 1, 1, 1_000), 10 ** 9)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+// src/lib/health.ts
+import { ApiError } from './api';
+
+/* =========================================
+   Saúde por servidor ADX
+   Cada ciclo de atualização registra sucesso (tempo de resposta, contagem)
+   ou falha (mensagem, status HTTP). Servidor com falhas seguidas entra em
+   backoff exponencial: 1, 2, 4, 8… ciclos, até BACKOFF_MAX_MS.
+   ========================================= */
+export type ServerHealth = {
+  lastSuccessAt?: number;   // epoch ms
+  latencyMs?: number;       // da última leitura ok
+  count?: number;           // alarmes na última leitura ok
+  lastErrorAt?: number;
+  lastError?: string;
+  lastStatus?: number;      // HTTP; ausente em erro de rede
+  consecutiveFailures: number;
+  nextRetryAt?: number;     // só com falhas: antes disso o servidor é pulado
+};
+
+export type HealthMap = Record<string, ServerHealth>; // por server.name
+
+export const BACKOFF_BASE_MS = 60_000;
+export const BACKOFF_MAX_MS = 15 * 60_000;
+export const STALE_AFTER_MS = 5 * 60_000;
+
+const EMPTY: ServerHealth = { consecutiveFailures: 0 };
+
+export function backoffDelay(failures: number): number {
+  if (failures <= 0) return 0;
+  return Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), BACKOFF_MAX_MS);
+}
+
+export function recordSuccess(prev: ServerHealth | undefined, latencyMs: number, count: number, now: number): ServerHealth {
+  return {
+    ...(prev ?? EMPTY),
+    lastSuccessAt: now,
+    latencyMs,
+    count,
+    consecutiveFailures: 0,
+    nextRetryAt: undefined,
+  };
+}
+
+export function recordFailure(prev: ServerHealth | undefined, error: unknown, now: number): ServerHealth {
+  const failures = (prev?.consecutiveFailures ?? 0) + 1;
+  return {
+    ...(prev ?? EMPTY),
+    lastErrorAt: now,
+    lastError: error instanceof Error ? error.message : String(error),
+    lastStatus: error instanceof ApiError ? error.status : undefined,
+    consecutiveFailures: failures,
+    nextRetryAt: now + backoffDelay(failures),
+  };
+}
+
+export function isDue(h: ServerHealth | undefined, now: number): boolean {
+  return !h?.nextRetryAt || h.nextRetryAt <= now;
+}
+
+// Só conta como desatualizado quem já teve leitura ok (as linhas mostradas são dessa leitura)
+export function isStale(h: ServerHealth | undefined, now: number, afterMs = STALE_AFTER_MS): boolean {
+  return !!h?.lastSuccessAt && now - h.lastSuccessAt > afterMs;
+}
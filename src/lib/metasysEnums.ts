@@ -0,0 +1,170 @@
+// src/lib/metasysEnums.ts
+import { hasMessage, t, type MessageKey } from '../i18n/i18n';
+
+/* =========================================
+   Enumerações Metasys -> texto legível
+   Unidades chegam como "unitEnumSet.<membro>" e estados enumerados como
+   "<conjunto>EnumSet.<membro>" (ex.: "alarmValueEnumSet.avHighAlarm").
+   Membro desconhecido aparece sem o prefixo do conjunto. Textos traduzíveis
+   (estados e unidades por extenso) ficam nos catálogos de src/i18n e só são
+   aplicados na exibição (enumLabel / unitLabel): as linhas guardam o valor cru.
+   ========================================= */
+
+// unitEnumSet (mesmos membros das engineering units BACnet)
+const UNIT_LABELS: Record<string, string> = {
+  noUnits: '',
+  // temperatura
+  degC: '°C',
+  degF: '°F',
+  degK: 'K',
+  degreesKelvin: 'K',
+  deltaDegC: 'Δ°C',
+  deltaDegF: 'Δ°F',
+  deltaDegK: 'ΔK',
+  // umidade / razões
+  percent: '%',
+  percentRelativeHumidity: '%UR',
+  percentPerSecond: '%/s',
+  partsPerMillion: 'ppm',
+  partsPerBillion: 'ppb',
+  gramsOfWaterPerKilogramDryAir: 'g/kg',
+  grainsOfWaterPerPoundDryAir: 'gr/lb',
+  // pressão
+  pascals: 'Pa',
+  hectopascals: 'hPa',
+  kilopascals: 'kPa',
+  megapascals: 'MPa',
+  bars: 'bar',
+  millibars: 'mbar',
+  poundsForcePerSquareInch: 'psi',
+  inchesOfWater: 'inH₂O',
+  millimetersOfWater: 'mmH₂O',
+  centimetersOfWater: 'cmH₂O',
+  inchesOfMercury: 'inHg',
+  millimetersOfMercury: 'mmHg',
+  centimetersOfMercury: 'cmHg',
+  // vazão
+  cubicFeetPerMinute: 'CFM',
+  cubicFeetPerSecond: 'ft³/s',
+  cubicFeetPerHour: 'ft³/h',
+  cubicMetersPerSecond: 'm³/s',
+  cubicMetersPerMinute: 'm³/min',
+  cubicMetersPerHour: 'm³/h',
+  litersPerSecond: 'L/s',
+  litersPerMinute: 'L/min',
+  litersPerHour: 'L/h',
+  usGallonsPerMinute: 'GPM',
+  usGallonsPerHour: 'gal/h',
+  imperialGallonsPerMinute: 'UK gal/min',
+  kilogramsPerSecond: 'kg/s',
+  kilogramsPerMinute: 'kg/min',
+  kilogramsPerHour: 'kg/h',
+  poundsMassPerMinute: 'lb/min',
+  poundsMassPerHour: 'lb/h',
+  // velocidade
+  metersPerSecond: 'm/s',
+  metersPerMinute: 'm/min',
+  metersPerHour: 'm/h',
+  kilometersPerHour: 'km/h',
+  feetPerSecond: 'ft/s',
+  feetPerMinute: 'ft/min',
+  milesPerHour: 'mph',
+  // potência / energia
+  watts: 'W',
+  kilowatts: 'kW',
+  megawatts: 'MW',
+  btusPerHour: 'BTU/h',
+  kiloBtusPerHour: 'kBTU/h',
+  horsepower: 'hp',
+  tonsRefrigeration: 'TR',
+  wattHours: 'Wh',
+  kilowattHours: 'kWh',
+  megawattHours: 'MWh',
+  joules: 'J',
+  kilojoules: 'kJ',
+  megajoules: 'MJ',
+  btus: 'BTU',
+  kiloBtus: 'kBTU',
+  therms: 'thm',
+  tonHours: 'TRh',
+  kilojoulesPerKilogramDryAir: 'kJ/kg',
+  btusPerPoundDryAir: 'BTU/lb',
+  // elétricas
+  volts: 'V',
+  millivolts: 'mV',
+  kilovolts: 'kV',
+  amperes: 'A',
+  milliamperes: 'mA',
+  voltAmperes: 'VA',
+  kilovoltAmperes: 'kVA',
+  voltAmperesReactive: 'var',
+  kilovoltAmperesReactive: 'kvar',
+  ohms: 'Ω',
+  kilohms: 'kΩ',
+  hertz: 'Hz',
+  // tempo / frequência
+  milliseconds: 'ms',
+  seconds: 's',
+  minutes: 'min',
+  hours: 'h',
+  revolutionsPerMinute: 'rpm',
+  perMinute: '/min',
+  perHour: '/h',
+  // dimensões / massa / volume
+  millimeters: 'mm',
+  centimeters: 'cm',
+  meters: 'm',
+  kilometers: 'km',
+  inches: 'in',
+  feet: 'ft',
+  squareMeters: 'm²',
+  squareFeet: 'ft²',
+  liters: 'L',
+  cubicMeters: 'm³',
+  cubicFeet: 'ft³',
+  usGallons: 'gal',
+  grams: 'g',
+  kilograms: 'kg',
+  poundsMass: 'lb',
+  // iluminação / som
+  luxes: 'lx',
+  footCandles: 'fc',
+  lumens: 'lm',
+  decibels: 'dB',
+};
+
+// Unidades escritas por extenso ou com sigla local: vêm do catálogo do idioma
+const UNIT_WORDS: Record<string, MessageKey> = {
+  degreeDaysCelsius: 'unit.degreeDaysCelsius',
+  degreeDaysFahrenheit: 'unit.degreeDaysFahrenheit',
+  powerFactor: 'unit.powerFactor',
+  days: 'unit.days',
+  weeks: 'unit.weeks',
+  months: 'unit.months',
+  years: 'unit.years',
+};
+
+const UNIT_PREFIX = 'unitEnumSet.';
+const ENUM_VALUE = /^[A-Za-z0-9]+EnumSet\.([A-Za-z0-9_]+)$/;
+
+// Unidade que não depende do idioma: sigla, ou o próprio enum p/ as escritas por extenso
+export function mapUnit(units?: string): string {
+  if (!units) return '';
+  const member = units.startsWith(UNIT_PREFIX) ? units.slice(UNIT_PREFIX.length) : units;
+  if (member in UNIT_WORDS) return UNIT_PREFIX + member;
+  return UNIT_LABELS[member] ?? member;
+}
+
+// Unidade (de mapUnit) no idioma atual
+export function unitLabel(unit: string): string {
+  const word = unit.startsWith(UNIT_PREFIX) ? UNIT_WORDS[unit.slice(UNIT_PREFIX.length)] : undefined;
+  return word ? t(word) : unit;
+}
+
+// Só mexe em textos no formato "<conjunto>EnumSet.<membro>"; o resto passa igual
+export function enumLabel(value: string): string {
+  const m = ENUM_VALUE.exec(value);
+  if (!m) return value;
+  const key = `enum.${value}`;
+  return hasMessage(key) ? t(key) : m[1];
+}
@@ -0,0 +1,122 @@
+// src/lib/notify.ts
+import { t } from '../i18n/i18n';
+
+/* =========================================
+   Regras de notificação (localStorage)
+   Um alarme NOVO que casar com uma regra ativa toca som e/ou
+   gera Notification do navegador. Prioridade Metasys: menor = mais crítico.
+   ========================================= */
+export type NotifyRule = {
+  id: string;
+  name: string;
+  maxPriority: number;    // casa se priority <= maxPriority
+  sitePattern: string;    // vazio = qualquer; aceita * como curinga
+  pointPattern: string;
+  sound: boolean;
+  desktop: boolean;
+  enabled: boolean;
+  snoozedUntil?: number;  // epoch ms — silenciada até lá
+};
+
+export type NotifyTarget = { id: string; site: string; point: string; priority: number };
+
+const RULES_KEY = 'alarms_notify_rules';
+const MUTE_KEY = 'alarms_notify_mute';
+
+export function newRule(partial?: Partial<NotifyRule>): NotifyRule {
+  return {
+    id: Math.random().toString(36).slice(2, 10),
+    name: t('notify.newRule'),
+    maxPriority: 20,
+    sitePattern: '',
+    pointPattern: '',
+    sound: true,
+    desktop: true,
+    enabled: true,
+    ...partial,
+  };
+}
+
+export function loadRules(): NotifyRule[] {
+  try {
+    const raw = localStorage.getItem(RULES_KEY);
+    if (raw) return JSON.parse(raw) as NotifyRule[];
+  } catch { /* regras corrompidas: volta ao padrão */ }
+  return [newRule({ id: 'criticos', name: t('notify.defaultRule') })];
+}
+export function saveRules(rules: NotifyRule[]) {
+  try { localStorage.setItem(RULES_KEY, JSON.stringify(rules)); } catch { /* sem storage */ }
+}
+
+export function loadMuted(): boolean {
+  try { return localStorage.getItem(MUTE_KEY) === '1'; } catch { return false; }
+}
+export function saveMuted(muted: boolean) {
+  try { localStorage.setItem(MUTE_KEY, muted ? '1' : '0'); } catch { /* sem storage */ }
+}
+
+// "AHU*" -> /^AHU.*$/i ; sem curinga = contém (igual aos filtros da tabela)
+function patternMatches(pattern: string, text: string): boolean {
+  const p = pattern.trim();
+  if (!p) return true;
+  if (!p.includes('*')) return text.toLowerCase().includes(p.toLowerCase());
+  const escaped = p.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`, 'i').test(text);
+}
+
+export function isRuleActive(rule: NotifyRule, now = Date.now()): boolean {
+  return rule.enabled && !(rule.snoozedUntil && rule.snoozedUntil > now);
+}
+
+export function ruleMatches(rule: NotifyRule, t: NotifyTarget): boolean {
+  return t.priority <= rule.maxPriority
+    && patternMatches(rule.sitePattern, t.site)
+    && patternMatches(rule.pointPattern, t.point);
+}
+
+export function requestDesktopPermission() {
+  if ('Notification' in window && Notification.permission === 'default') {
+    void Notification.requestPermission();
+  }
+}
+
+// Bipe curto via WebAudio (sem arquivo de áudio no bundle)
+function beep() {
+  try {
+    const ctx = new AudioContext();
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'square';
+    osc.frequency.value = 880;
+    gain.gain.value = 0.15;
+    osc.connect(gain).connect(ctx.destination);
+    osc.start();
+    osc.stop(ctx.currentTime + 0.6);
+    osc.onended = () => { void ctx.close(); };
+  } catch { /* navegador sem áudio */ }
+}
+
+// Chamado a cada atualização com os alarmes recém-chegados
+export function notifyNewAlarms(added: NotifyTarget[]) {
+  if (added.length === 0 || loadMuted()) return;
+  const rules = loadRules().filter((r) => isRuleActive(r));
+  let playSound = false;
+
+  for (const rule of rules) {
+    const hits = added.filter((a) => ruleMatches(rule, a));
+    if (hits.length === 0) continue;
+    playSound ||= rule.sound;
+    if (rule.desktop && 'Notification' in window && Notification.permission === 'granted') {
+      const first = hits[0];
+      try {
+        new Notification(t('notify.title', { rule: rule.name, count: hits.length }), {
+          body: t('notify.body', { point: first.point, site: first.site, priority: first.priority }),
+          tag: `alarmboard-${rule.id}`,
+        });
+      } catch {
+        playSound = true; // sem Notification fora de service worker (Chrome Android): fica o bipe
+      }
+    }
+  }
+  if (playSound) beep();
+}
@@ -0,0 +1,59 @@
+// src/lib/relay.ts
+import { t } from '../i18n/i18n';
+import type { AlarmDTO } from './api';
+
+/* =========================================
+   Fluxo ao vivo do relay local (server/alarmRelay.ts) — SSE em /board-api/stream
+   O relay consulta cada ADX uma vez por ciclo e repassa só as mudanças:
+     snapshot  estado completo (1ª mensagem de cada conexão)
+     add       alarme novo          update  alarme mudou (ex.: reconhecido)
+     clear     alarme saiu da lista status  resultado do ciclo de um servidor
+   ========================================= */
+export const RELAY_STREAM_URL = '/board-api/stream';
+
+// Resultado do último ciclo de um servidor (name = chave do registro de servidores)
+export type RelayStatus = {
+  ok: boolean;
+  at: number;            // epoch ms do fim da leitura
+  latencyMs?: number;
+  count?: number;
+  total?: number;
+  truncated?: boolean;
+  error?: string;
+  status?: number;       // HTTP da falha; ausente em erro de rede
+};
+
+export type RelayServerState = { alarms: AlarmDTO[]; status?: RelayStatus };
+
+export type RelayEvent =
+  | { type: 'snapshot'; servers: Record<string, RelayServerState> }
+  | { type: 'add' | 'update'; server: string; alarm: AlarmDTO }
+  | { type: 'clear'; server: string; id: string }
+  | { type: 'status'; server: string; status: RelayStatus };
+
+export type StreamHandlers = {
+  event: (e: RelayEvent) => void;
+  drop: (reason: string) => void;   // conexão caiu ou foi recusada; não reconecta sozinho
+};
+
+// Abre o fluxo e devolve a função que fecha
+export type StreamConnector = (handlers: StreamHandlers) => () => void;
+
+// EventSource reconecta sozinho; aqui a queda é repassada e quem chamou decide quando voltar
+export function eventSourceStream(url: string = RELAY_STREAM_URL): StreamConnector {
+  return ({ event, drop }) => {
+    const es = new EventSource(url);
+    es.onmessage = (msg) => {
+      try {
+        event(JSON.parse(msg.data as string) as RelayEvent);
+      } catch {
+        /* mensagem inválida: ignora */
+      }
+    };
+    es.onerror = () => {
+      es.close();
+      drop(t('feed.streamUnavailable'));
+    };
+    return () => es.close();
+  };
+}
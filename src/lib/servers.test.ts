@@ -0,0 +1,32 @@
+// src/lib/servers.test.ts
+import { describe, expect, it } from 'vitest';
+import { SERVERS, composeRowId, parseRowId } from './servers';
+
+describe('ID composto', () => {
+  it('ida e volta p/ todos os servidores do registro', () => {
+    for (const server of SERVERS) {
+      const id = composeRowId(server, 'abc-123-def');
+      expect(id).toBe(`${server.name}-abc-123-def`);
+      expect(parseRowId(id)).toEqual({ server, alarmId: 'abc-123-def' });
+    }
+  });
+
+  it('não confunde servidores com nomes de mesmo prefixo', () => {
+    // "10.2.1.100-x" não pode casar com um servidor "10.2.1.10"
+    expect(parseRowId('10.2.1.100-x')?.server.name).toBe('10.2.1.100');
+  });
+
+  it('nome que é prefixo de outro perde p/ o mais longo', () => {
+    const servers = [
+      { name: 'adx', label: 'ADX', apiBase: '/adx', enabled: true },
+      { name: 'adx-2', label: 'ADX 2', apiBase: '/adx2', enabled: true },
+    ];
+    expect(parseRowId('adx-2-abc', servers)).toEqual({ server: servers[1], alarmId: 'abc' });
+    expect(parseRowId('adx-abc', servers)).toEqual({ server: servers[0], alarmId: 'abc' });
+  });
+
+  it('ID de servidor desconhecido não é resolvido', () => {
+    expect(parseRowId('10.9.9.9-abc')).toBeUndefined();
+    expect(parseRowId('semservidor')).toBeUndefined();
+  });
+});
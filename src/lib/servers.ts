@@ -0,0 +1,40 @@
+// src/lib/servers.ts
+import serversConfig from '../config/servers.json';
+
+/* =========================================
+   Registro de servidores ADX
+   Lido de src/config/servers.json — o mesmo arquivo gera o proxy do Vite.
+   ========================================= */
+export type AdxServer = {
+  name: string;          // chave estável -> prefixo do ID composto "<name>-<id>"
+  label: string;         // nome exibido na nota de conexão
+  apiBase: string;       // prefixo do proxy ("/api100") ou URL base ("https://host/api")
+  proxyTarget?: string;  // se definido, o Vite cria o proxy apiBase -> proxyTarget/api
+  enabled: boolean;
+  pageSize?: number;     // itens por página (padrão DEFAULT_PAGE_SIZE em api.ts)
+  maxAlarms?: number;    // teto de alarmes por atualização (padrão DEFAULT_MAX_ITEMS)
+};
+
+export const SERVERS: AdxServer[] = serversConfig as AdxServer[];
+
+export function enabledServers(): AdxServer[] {
+  return SERVERS.filter((s) => s.enabled);
+}
+
+export function composeRowId(server: AdxServer, alarmId: string): string {
+  return `${server.name}-${alarmId}`;
+}
+
+// Inverso do composeRowId: descobre o servidor de origem de uma linha.
+// Nomes podem ser prefixo um do outro ("adx" e "adx-2"): vale o mais longo que casar
+export function parseRowId(
+  rowId: string,
+  servers: AdxServer[] = SERVERS,
+): { server: AdxServer; alarmId: string } | undefined {
+  let server: AdxServer | undefined;
+  for (const s of servers) {
+    if (rowId.startsWith(`${s.name}-`) && s.name.length > (server?.name.length ?? -1)) server = s;
+  }
+  if (!server) return undefined;
+  return { server, alarmId: rowId.slice(server.name.length + 1) };
+}
@@ -0,0 +1,66 @@
+// src/lib/units.test.ts
+import { describe, expect, it } from 'vitest';
+import { enumLabel, mapUnit, unitLabel } from './metasysEnums';
+import { convertRows, convertValue } from './units';
+
+describe('mapUnit', () => {
+  it.each([
+    [undefined, ''],
+    ['unitEnumSet.degF', '°F'],
+    ['unitEnumSet.degC', '°C'],
+    ['unitEnumSet.percent', '%'],
+    ['unitEnumSet.noUnits', ''],
+    ['unitEnumSet.kilopascals', 'kPa'],
+    ['unitEnumSet.cubicFeetPerMinute', 'CFM'],
+    ['unitEnumSet.kilowatts', 'kW'],
+    ['unitEnumSet.partsPerMillion', 'ppm'],
+    ['unitEnumSet.unidadeNova', 'unidadeNova'], // desconhecida: sem o prefixo
+    ['unitEnumSet.days', 'unitEnumSet.days'],   // por extenso: traduzida na exibição (unitLabel)
+    ['m3/h', 'm3/h'],
+  ])('%j -> %j', (units, expected) => {
+    expect(mapUnit(units)).toBe(expected);
+  });
+});
+
+describe('unitLabel', () => {
+  it('traduz só as unidades por extenso', () => {
+    expect(unitLabel(mapUnit('unitEnumSet.days'))).toBe('dias');
+    expect(unitLabel('°F')).toBe('°F');
+    expect(unitLabel('')).toBe('');
+  });
+});
+
+describe('enumLabel', () => {
+  it.each([
+    ['alarmValueEnumSet.avHighAlarm', 'Alarme alto'],
+    ['alarmValueEnumSet.avNormal', 'Normal'],
+    ['offonEnumSet.on', 'Ligado'],
+    ['alarmValueEnumSet.avNovoEstado', 'avNovoEstado'],
+    ['78.5', '78.5'],
+    ['Falha. Verificar', 'Falha. Verificar'],
+  ])('%j -> %j', (value, expected) => {
+    expect(enumLabel(value)).toBe(expected);
+  });
+});
+
+describe('conversão de unidades', () => {
+  it.each([
+    ['78.5', '°F', 'si', '25.83', '°C'],
+    ['25', '°C', 'us', '77', '°F'],
+    ['100', 'psi', 'si', '689.48', 'kPa'],
+    ['1000', 'CFM', 'si', '1699.01', 'm³/h'],
+    ['25', '°C', 'si', '25', '°C'],          // já no sistema pedido
+    ['Falha', '°F', 'si', 'Falha', '°F'],   // não numérico
+    ['78.5', '°F', 'original', '78.5', '°F'],
+  ] as const)('%s %s (%s) -> %s %s', (value, unit, system, v, u) => {
+    expect(convertValue(value, unit, system)).toEqual({ value: v, unit: u });
+  });
+
+  it('mantém a referência das linhas sem conversão', () => {
+    const rows = [{ value: '10', unit: '%' }, { value: '50', unit: '°F' }];
+    const out = convertRows(rows, 'si');
+    expect(out[0]).toBe(rows[0]);
+    expect(out[1]).toEqual({ value: '10', unit: '°C' });
+    expect(convertRows(rows, 'original')).toBe(rows);
+  });
+});
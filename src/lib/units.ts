@@ -0,0 +1,84 @@
+// src/lib/units.ts
+import type { MessageKey } from '../i18n/i18n';
+
+/* =========================================
+   Conversão de unidades p/ o sistema preferido da equipe
+   Trabalha sobre os rótulos já mapeados (metasysEnums.mapUnit): °F -> °C etc.
+   Valor não numérico ou unidade sem conversão passa igual.
+   ========================================= */
+export type UnitSystem = 'original' | 'si' | 'us';
+
+export const UNIT_SYSTEM_LABELS: [UnitSystem, MessageKey][] = [
+  ['original', 'units.original'],
+  ['si', 'units.si'],
+  ['us', 'units.us'],
+];
+
+type Conversion = { to: string; convert: (v: number) => number };
+
+const linear = (to: string, factor: number): Conversion => ({ to, convert: (v) => v * factor });
+
+const TO_SI: Record<string, Conversion> = {
+  '°F': { to: '°C', convert: (v) => ((v - 32) * 5) / 9 },
+  'Δ°F': linear('Δ°C', 5 / 9),
+  psi: linear('kPa', 6.894757),
+  'inH₂O': linear('Pa', 249.0889),
+  inHg: linear('kPa', 3.386389),
+  CFM: linear('m³/h', 1.699011),
+  GPM: linear('L/s', 0.0630902),
+  'BTU/h': linear('kW', 0.00029307107),
+  'kBTU/h': linear('kW', 0.29307107),
+  TR: linear('kW', 3.516853),
+  'ft/min': linear('m/s', 0.00508),
+  ft: linear('m', 0.3048),
+  'lb/h': linear('kg/h', 0.45359237),
+  'BTU/lb': linear('kJ/kg', 2.326),
+  'gr/lb': linear('g/kg', 1 / 7),
+};
+
+const TO_US: Record<string, Conversion> = {
+  '°C': { to: '°F', convert: (v) => (v * 9) / 5 + 32 },
+  'Δ°C': linear('Δ°F', 9 / 5),
+  kPa: linear('psi', 1 / 6.894757),
+  Pa: linear('inH₂O', 1 / 249.0889),
+  'm³/h': linear('CFM', 1 / 1.699011),
+  'L/s': linear('GPM', 1 / 0.0630902),
+  'm/s': linear('ft/min', 1 / 0.00508),
+  m: linear('ft', 1 / 0.3048),
+  'kg/h': linear('lb/h', 1 / 0.45359237),
+  'kJ/kg': linear('BTU/lb', 1 / 2.326),
+  'g/kg': linear('gr/lb', 7),
+};
+
+// Duas casas bastam p/ leitura de campo; sem zeros à direita
+const round = (v: number) => String(Math.round(v * 100) / 100);
+
+export function convertValue(value: string, unit: string, system: UnitSystem): { value: string; unit: string } {
+  const conv = system === 'si' ? TO_SI[unit] : system === 'us' ? TO_US[unit] : undefined;
+  const n = Number(value.replace(',', '.'));
+  if (!conv || value.trim() === '' || !Number.isFinite(n)) return { value, unit };
+  return { value: round(conv.convert(n)), unit: conv.to };
+}
+
+// Linhas sem conversão mantêm a mesma referência (memo/virtualização)
+export function convertRows<T extends { value: string; unit: string }>(rows: T[], system: UnitSystem): T[] {
+  if (system === 'original') return rows;
+  return rows.map((r) => {
+    const c = convertValue(r.value, r.unit, system);
+    return c.unit === r.unit && c.value === r.value ? r : { ...r, ...c };
+  });
+}
+
+// ----- Preferência (localStorage) -----
+const UNITS_KEY = 'alarms_unit_system';
+
+export function loadUnitSystem(): UnitSystem {
+  try {
+    const raw = localStorage.getItem(UNITS_KEY);
+    if (raw === 'si' || raw === 'us') return raw;
+  } catch { /* sem storage */ }
+  return 'original';
+}
+export function saveUnitSystem(system: UnitSystem) {
+  try { localStorage.setItem(UNITS_KEY, system); } catch { /* sem storage */ }
+}
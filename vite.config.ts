@@ -1,26 +1,48 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type ProxyOptions } from 'vite'
 import react from '@vitejs/plugin-react'
+import servers from './src/config/servers.json'
+import { AlarmRelay } from './server/alarmRelay'
+import { boardApi } from './server/boardApi'
+import { mockMetasys } from './server/mockMetasys'
 
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    host: false,
-    port: 5173,
-    strictPort: true,
-    proxy: {
-      '/api69': {
-        target: 'https://10.2.1.69',
-        changeOrigin: true,
-        secure: false,
-        rewrite: (path) => path.replace(/^\/api69/, '/api'),
-      },
-      '/api100': {
-        target: 'https://10.2.1.100',
-        changeOrigin: true,
-        secure: false,
-        rewrite: (path) => path.replace(/^\/api100/, '/api'),
-      },
-    },
+// Um proxy por servidor ADX do registro (apenas os que usam prefixo local)
+const proxy: Record<string, ProxyOptions> = {}
+for (const s of servers) {
+  if (!s.enabled || !s.proxyTarget) continue
+  const prefix = s.apiBase
+  proxy[prefix] = {
+    target: s.proxyTarget,
+    changeOrigin: true,
+    secure: false,
+    rewrite: (path) => path.replace(new RegExp(`^${prefix}`), '/api'),
+  }
+}
+
+// "vite --mode mock" (npm run dev:mock): Metasys simulado no lugar dos ADX reais
+export default defineConfig(({ mode }) => {
+  const mock = mode === 'mock'
+  const enabled = servers.filter((s) => s.enabled)
+
+  const env = loadEnv(mode, process.cwd(), ['RELAY_', 'COMMENTS_'])
 
-  },
+  // Relay ao vivo (/board-api/stream): conta de serviço em .env.local; o simulador aceita qualquer login
+  const username = env.RELAY_USERNAME || (mock ? 'relay' : '')
+  const password = env.RELAY_PASSWORD || (mock ? 'relay' : '')
+  const relay = new AlarmRelay({
+    servers: enabled,
+    credentials: username && password ? { username, password } : undefined,
+    periodMs: Number(env.RELAY_PERIOD_MS) || undefined,
+  })
+  // Comentários: limpeza dos históricos antigos só se configurada
+  const commentRetentionDays = Number(env.COMMENTS_RETENTION_DAYS) || undefined
+
+  return {
+    plugins: [react(), boardApi({ relay, commentRetentionDays }), ...(mock ? [mockMetasys(enabled)] : [])],
+    server: {
+      host: false,
+      port: 5173,
+      strictPort: true,
+      proxy: mock ? undefined : proxy,
+    },
+  }
 })